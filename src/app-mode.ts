@@ -0,0 +1,79 @@
+/**
+ * Application-Permission Mode
+ *
+ * An opt-in server mode for compliance and records retrieval across
+ * users. Instead of exchanging the caller's token via OBO, the server
+ * uses its own client credentials token (application permissions,
+ * scoped in Teams by an application access policy), and every tool
+ * takes the userId or UPN of the user whose meetings to read.
+ *
+ * Off by default: the delegated, least-privilege model stays the norm.
+ * When enabled, only callers on the allow-list may use the server —
+ * listed by object ID / UPN, or by membership of a listed group.
+ */
+
+import { AccessTokenClaims } from './token-validator';
+
+// ── Configuration ───────────────────────────────────────────────────
+const APP_PERMISSION_MODE = (process.env.APP_PERMISSION_MODE || 'false').toLowerCase() === 'true';
+const APP_MODE_ALLOWED_USERS = parseList(process.env.APP_MODE_ALLOWED_USERS);
+const APP_MODE_ALLOWED_GROUPS = parseList(process.env.APP_MODE_ALLOWED_GROUPS);
+
+if (APP_PERMISSION_MODE) {
+  console.warn('[AUTH] Application-permission mode is ENABLED — tools read meetings of any user the access policy allows');
+  if (APP_MODE_ALLOWED_USERS.length === 0 && APP_MODE_ALLOWED_GROUPS.length === 0) {
+    console.warn('[AUTH] APP_MODE_ALLOWED_USERS and APP_MODE_ALLOWED_GROUPS are empty — every request will be refused');
+  }
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * True when the server runs with application permissions instead of OBO.
+ */
+export function isAppPermissionMode(): boolean {
+  return APP_PERMISSION_MODE;
+}
+
+/**
+ * Check a validated caller against the application-mode allow-list.
+ * Group membership is read from the token's `groups` claim, so the app
+ * registration must emit group claims (Token configuration → Add groups
+ * claim). Tokens with too many groups carry an overage marker instead
+ * of the list and are refused unless the caller is listed by user.
+ *
+ * @returns null when the caller is allowed, otherwise the reason to refuse
+ */
+export function checkAppModeAccess(claims: AccessTokenClaims): string | null {
+  const identities = [claims.oid, claims.upn, claims.preferred_username]
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.toLowerCase());
+  if (identities.some((id) => APP_MODE_ALLOWED_USERS.includes(id))) {
+    return null;
+  }
+
+  const groups = (claims.groups || []).map((g) => g.toLowerCase());
+  if (groups.some((g) => APP_MODE_ALLOWED_GROUPS.includes(g))) {
+    return null;
+  }
+
+  const overage = typeof claims._claim_names === 'object' && claims._claim_names !== null &&
+    'groups' in (claims._claim_names as Record<string, unknown>);
+  return overage
+    ? 'Caller is not in APP_MODE_ALLOWED_USERS and the token has too many groups to check APP_MODE_ALLOWED_GROUPS'
+    : 'Caller is not allowed to use application-permission mode';
+}
+
+/**
+ * A readable name for the caller, for audit logging.
+ */
+export function describeCaller(claims: AccessTokenClaims): string {
+  return claims.upn || claims.preferred_username || claims.oid || 'unknown caller';
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
@@ -5,24 +5,36 @@
  * access token using the OAuth 2.0 OBO flow. This ensures the MCP
  * server only accesses data the signed-in user is allowed to see
  * (delegated permissions, not application-level "god mode").
+ *
+ * Graph tokens are cached at two levels so the stateless transport does
+ * not cost an Entra round trip on every POST /mcp:
+ *  - An in-process map keyed by a hash of the incoming assertion, reused
+ *    until shortly before the Graph token expires
+ *  - MSAL's own token cache, persisted per user (oid.tid) through a
+ *    pluggable store (see token-cache.ts) shared across replicas
+ *
+ * Application-permission mode (see app-mode.ts) instead uses a client
+ * credentials token for the app itself; MSAL caches that in-process.
  */
 
 import {
   ConfidentialClientApplication,
   Configuration,
+  DistributedCachePlugin,
+  IPartitionManager,
   OnBehalfOfRequest,
 } from '@azure/msal-node';
+import { getTokenCacheStore, hashKey } from './token-cache';
 
 // ── Configuration ───────────────────────────────────────────────────
 const AZURE_CLIENT_ID = process.env.AZURE_CLIENT_ID || '';
 const AZURE_CLIENT_SECRET = process.env.AZURE_CLIENT_SECRET || '';
 const AZURE_TENANT_ID = process.env.AZURE_TENANT_ID || '';
 
-if (!AZURE_CLIENT_ID || !AZURE_CLIENT_SECRET || !AZURE_TENANT_ID) {
-  console.warn(
-    '[AUTH] Missing one or more required env vars: AZURE_CLIENT_ID, AZURE_CLIENT_SECRET, AZURE_TENANT_ID'
-  );
-}
+const TOKEN_CACHE_MAX_ENTRIES = parseInt(process.env.TOKEN_CACHE_MAX_ENTRIES || '1000', 10);
+
+/** Stop reusing a cached Graph token this long before it expires */
+const EXPIRY_SKEW_MS = 5 * 60 * 1000;
 
 const msalConfig: Configuration = {
   auth: {
@@ -32,27 +44,126 @@ const msalConfig: Configuration = {
   },
 };
 
-const cca = new ConfidentialClientApplication(msalConfig);
-
-// The Graph scopes we need for meeting transcript retrieval + SharePoint upload
-const GRAPH_SCOPES = [
+// The Graph scopes we need for meeting transcript/recording retrieval + SharePoint upload
+// Adding one here breaks existing deployments until admin consent is re-granted (AADSTS65001)
+export const GRAPH_SCOPES = [
   'https://graph.microsoft.com/OnlineMeetings.Read',
   'https://graph.microsoft.com/OnlineMeetingTranscript.Read.All',
+  'https://graph.microsoft.com/OnlineMeetingRecording.Read.All',
   'https://graph.microsoft.com/User.Read',
   'https://graph.microsoft.com/Calendars.Read',
   'https://graph.microsoft.com/Sites.ReadWrite.All',
 ];
 
+// Application permissions granted to the app registration (app mode only)
+const GRAPH_APP_SCOPES = ['https://graph.microsoft.com/.default'];
+
+// Created on first use so delegated-only deployments never build it
+let appClient: ConfidentialClientApplication | null = null;
+
+let configChecked = false;
+
+/**
+ * Warn once, on the first confidential-client token request, when the
+ * app registration is not configured. Checked here rather than at import,
+ * because the stdio server imports this module but signs in without a
+ * client secret.
+ */
+function checkConfig(): void {
+  if (configChecked) return;
+  configChecked = true;
+  if (!AZURE_CLIENT_ID || !AZURE_CLIENT_SECRET || !AZURE_TENANT_ID) {
+    console.warn(
+      '[AUTH] Missing one or more required env vars: AZURE_CLIENT_ID, AZURE_CLIENT_SECRET, AZURE_TENANT_ID'
+    );
+  }
+}
+
+// ── Token Cache ─────────────────────────────────────────────────────
+
+interface CachedToken {
+  accessToken: string;
+  expiresOn: number;
+}
+
+// Keyed by SHA-256 of the user assertion; Map order doubles as LRU order
+const tokenCache = new Map<string, CachedToken>();
+
+function getCachedToken(key: string): string | null {
+  const entry = tokenCache.get(key);
+  if (!entry) return null;
+  if (entry.expiresOn - EXPIRY_SKEW_MS <= Date.now()) {
+    tokenCache.delete(key);
+    return null;
+  }
+  tokenCache.delete(key);
+  tokenCache.set(key, entry);
+  return entry.accessToken;
+}
+
+function setCachedToken(key: string, entry: CachedToken): void {
+  tokenCache.set(key, entry);
+  while (tokenCache.size > TOKEN_CACHE_MAX_ENTRIES) {
+    tokenCache.delete(tokenCache.keys().next().value as string);
+  }
+}
+
+/**
+ * Partition MSAL's cache by the user's home account id (oid.tid), so
+ * every assertion for the same user reads and writes the same entry.
+ * The claims are only used to pick a partition — MSAL still validates
+ * the assertion against Entra before any token is issued from it.
+ */
+function partitionFor(userAssertion: string): IPartitionManager {
+  const claims = decodeJwtPayload(userAssertion);
+  const key = (claims && homeAccountIdFor(claims)) || `assertion.${hashKey(userAssertion)}`;
+  return partitionManager(key);
+}
+
+function partitionManager(key: string): IPartitionManager {
+  return {
+    getKey: async () => key,
+    extractKey: async (account) => account.homeAccountId || key,
+  };
+}
+
+function decodeJwtPayload(token: string): Record<string, string> | null {
+  try {
+    const payload = token.split('.')[1];
+    return payload ? JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) : null;
+  } catch {
+    return null;
+  }
+}
+
 // ── Public API ──────────────────────────────────────────────────────
 
 /**
  * Exchange an incoming user assertion (bearer token from Copilot Studio)
  * for a Graph access token via the OBO flow.
  *
+ * Returns a cached token when one for the same assertion is still valid;
+ * otherwise MSAL checks the user's persisted cache partition before
+ * calling Entra ID.
+ *
  * @param userAssertion - The bearer token received in the Authorization header
  * @returns A valid Microsoft Graph access token
  */
 export async function getGraphTokenOBO(userAssertion: string): Promise<string> {
+  const cacheKey = hashKey(userAssertion);
+  const cached = getCachedToken(cacheKey);
+  if (cached) return cached;
+  checkConfig();
+
+  // One client per exchange, as MSAL recommends with a distributed cache:
+  // the plugin loads only this user's partition into it
+  const cca = new ConfidentialClientApplication({
+    ...msalConfig,
+    cache: {
+      cachePlugin: new DistributedCachePlugin(getTokenCacheStore(), partitionFor(userAssertion)),
+    },
+  });
+
   const oboRequest: OnBehalfOfRequest = {
     oboAssertion: userAssertion,
     scopes: GRAPH_SCOPES,
@@ -64,6 +175,74 @@ export async function getGraphTokenOBO(userAssertion: string): Promise<string> {
     throw new Error('OBO token exchange failed — no access token returned');
   }
 
+  if (result.expiresOn) {
+    setCachedToken(cacheKey, { accessToken: result.accessToken, expiresOn: result.expiresOn.getTime() });
+  }
+
+  return result.accessToken;
+}
+
+/**
+ * MSAL home account id ("oid.tid") of a user, from their token claims.
+ * This is the key of the user's token cache partition.
+ */
+export function homeAccountIdFor(claims: { oid?: unknown; tid?: unknown }): string | null {
+  return typeof claims.oid === 'string' && typeof claims.tid === 'string'
+    ? `${claims.oid}.${claims.tid}`
+    : null;
+}
+
+/**
+ * Acquire a delegated Graph token for a user outside of any request,
+ * e.g. to renew a webhook subscription. MSAL redeems the refresh token
+ * kept in the user's cache partition from an earlier OBO exchange, so
+ * this only works while that partition is still in the token cache
+ * store and the refresh token is valid.
+ *
+ * @param homeAccountId - The user's "oid.tid", see homeAccountIdFor()
+ * @throws If the user has no usable cached session
+ */
+export async function getGraphTokenForAccount(homeAccountId: string): Promise<string> {
+  checkConfig();
+  const cca = new ConfidentialClientApplication({
+    ...msalConfig,
+    cache: {
+      cachePlugin: new DistributedCachePlugin(getTokenCacheStore(), partitionManager(homeAccountId)),
+    },
+  });
+
+  const account = await cca.getTokenCache().getAccountByHomeId(homeAccountId);
+  if (!account) {
+    throw new Error('No cached session for this user — they need to use the server again to sign in');
+  }
+
+  const result = await cca.acquireTokenSilent({ account, scopes: GRAPH_SCOPES });
+  if (!result || !result.accessToken) {
+    throw new Error('Silent token acquisition failed — no access token returned');
+  }
+
+  return result.accessToken;
+}
+
+/**
+ * Acquire an application (client credentials) Graph token for the app
+ * itself. Only used in application-permission mode; MSAL serves it from
+ * its in-memory cache until shortly before it expires.
+ *
+ * @returns A Microsoft Graph access token carrying the app's roles
+ */
+export async function getGraphTokenAppOnly(): Promise<string> {
+  checkConfig();
+  if (!appClient) {
+    appClient = new ConfidentialClientApplication(msalConfig);
+  }
+
+  const result = await appClient.acquireTokenByClientCredential({ scopes: GRAPH_APP_SCOPES });
+
+  if (!result || !result.accessToken) {
+    throw new Error('Client credentials token request failed — no access token returned');
+  }
+
   return result.accessToken;
 }
 
@@ -0,0 +1,175 @@
+/**
+ * Desktop Sign-In — Public Client Flows
+ *
+ * Delegated Graph tokens for the stdio entry point (stdio.ts). There is
+ * no incoming bearer token to exchange, so the user signs in themselves
+ * with the same app registration acting as a public client:
+ *  - device-code (default): a code to enter at microsoft.com/devicelogin,
+ *    from any browser — works over SSH and in headless sessions
+ *  - interactive: the system browser opens and returns to a localhost
+ *    redirect
+ *
+ * MSAL's token cache is persisted through the file store from
+ * token-cache.ts, so the refresh token survives restarts of the desktop
+ * client and the user only signs in again when it expires.
+ */
+
+import { spawn } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { AccountInfo, DistributedCachePlugin, PublicClientApplication } from '@azure/msal-node';
+import { GRAPH_SCOPES } from './auth';
+import { FileCacheStore } from './token-cache';
+
+// ── Configuration ───────────────────────────────────────────────────
+const AZURE_CLIENT_ID = process.env.AZURE_CLIENT_ID || '';
+const AZURE_TENANT_ID = process.env.AZURE_TENANT_ID || '';
+const STDIO_AUTH_FLOW = (process.env.STDIO_AUTH_FLOW || 'device-code').toLowerCase();
+const STDIO_TOKEN_CACHE_DIR = process.env.STDIO_TOKEN_CACHE_DIR || path.join(os.homedir(), '.transcripts-mcp');
+
+// The whole desktop cache is one partition: it only ever holds this user
+const CACHE_PARTITION = 'desktop';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Thrown while a device-code sign-in is waiting for the user. The
+ * message holds the verification URL and code, so it can be shown to
+ * the user as the tool result.
+ */
+export class SignInRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignInRequiredError';
+  }
+}
+
+// ── Client ──────────────────────────────────────────────────────────
+
+let client: PublicClientApplication | null = null;
+let pendingSignIn: Promise<string> | null = null;
+
+function getClient(): PublicClientApplication {
+  if (!client) {
+    const partition = {
+      getKey: async () => CACHE_PARTITION,
+      extractKey: async () => CACHE_PARTITION,
+    };
+    client = new PublicClientApplication({
+      auth: {
+        clientId: AZURE_CLIENT_ID,
+        authority: `https://login.microsoftonline.com/${AZURE_TENANT_ID}`,
+      },
+      cache: {
+        cachePlugin: new DistributedCachePlugin(new FileCacheStore(STDIO_TOKEN_CACHE_DIR), partition),
+      },
+    });
+  }
+  return client;
+}
+
+async function getSignedInAccount(): Promise<AccountInfo | null> {
+  const accounts = await getClient().getTokenCache().getAllAccounts();
+  return accounts[0] ?? null;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * A delegated Graph token for the desktop user. Uses the cached session
+ * when there is one; otherwise starts the sign-in flow chosen by
+ * STDIO_AUTH_FLOW.
+ *
+ * @throws SignInRequiredError while a device-code sign-in is pending
+ */
+export async function getDesktopGraphToken(): Promise<string> {
+  const account = await getSignedInAccount();
+  if (account) {
+    try {
+      const result = await getClient().acquireTokenSilent({ account, scopes: GRAPH_SCOPES });
+      if (result?.accessToken) return result.accessToken;
+    } catch (err: any) {
+      console.warn(`[AUTH] Cached session for ${account.username} could not be used (${err.errorCode || err.message}) — signing in again`);
+    }
+  }
+
+  if (STDIO_AUTH_FLOW === 'interactive') {
+    return signInInteractive();
+  }
+  if (STDIO_AUTH_FLOW !== 'device-code') {
+    console.warn(`[AUTH] Unknown STDIO_AUTH_FLOW "${STDIO_AUTH_FLOW}" — using device code sign-in`);
+  }
+  throw new SignInRequiredError(await startDeviceCodeSignIn());
+}
+
+/**
+ * The signed-in user's name, or null before the first sign-in.
+ */
+export async function getDesktopUsername(): Promise<string | null> {
+  return (await getSignedInAccount())?.username ?? null;
+}
+
+/**
+ * Start a device-code sign-in, or join the one already waiting, and
+ * return the instructions for the user. The flow keeps polling in the
+ * background; once the user completes it, the next call finds the
+ * account in the cache.
+ */
+function startDeviceCodeSignIn(): Promise<string> {
+  if (!pendingSignIn) {
+    let showMessage: (message: string) => void = () => undefined;
+    let fail: (err: Error) => void = () => undefined;
+    pendingSignIn = new Promise<string>((resolve, reject) => {
+      showMessage = resolve;
+      fail = reject;
+    });
+
+    getClient()
+      .acquireTokenByDeviceCode({
+        scopes: GRAPH_SCOPES,
+        deviceCodeCallback: (response) => {
+          console.error(`[AUTH] ${response.message}`);
+          showMessage(response.message);
+        },
+      })
+      .then((result) => {
+        console.error(`[AUTH] Signed in as ${result?.account?.username ?? 'unknown user'}`);
+      })
+      .catch((err: any) => {
+        // Only reaches the caller if no code was shown yet
+        console.error(`[AUTH] Device code sign-in failed: ${err.errorCode || err.message}`);
+        fail(new Error(`Device code sign-in failed (${err.errorCode || err.message})`));
+      })
+      .finally(() => {
+        pendingSignIn = null;
+      });
+  }
+
+  return pendingSignIn.then((message) =>
+    'Sign in to Microsoft 365 to continue. ' + message + ' Then repeat the request.'
+  );
+}
+
+async function signInInteractive(): Promise<string> {
+  const result = await getClient().acquireTokenInteractive({
+    scopes: GRAPH_SCOPES,
+    openBrowser,
+    successTemplate: 'Signed in. You can close this window and return to your MCP client.',
+  });
+  if (!result?.accessToken) {
+    throw new Error('Interactive sign-in failed — no access token returned');
+  }
+  console.error(`[AUTH] Signed in as ${result.account?.username ?? 'unknown user'}`);
+  return result.accessToken;
+}
+
+async function openBrowser(url: string): Promise<void> {
+  const [command, args] =
+    process.platform === 'win32' ? ['cmd', ['/c', 'start', '""', url.replace(/&/g, '^&')]]
+      : process.platform === 'darwin' ? ['open', [url]]
+        : ['xdg-open', [url]];
+  console.error(`[AUTH] Opening browser for sign-in. If nothing opens, visit: ${url}`);
+  spawn(command as string, args as string[], { detached: true, stdio: 'ignore' })
+    .on('error', () => undefined)
+    .unref();
+}
@@ -0,0 +1,365 @@
+/**
+ * Resilient Microsoft Graph HTTP Layer
+ *
+ * Every Graph request goes through graphFetch(), which adds:
+ *  - Retries with exponential backoff (and jitter) for throttling and
+ *    transient failures: 429, 502, 503, 504 and network errors,
+ *    honouring the Retry-After header when Graph sends one
+ *  - A per-request timeout (time until response headers arrive, so
+ *    large downloads can keep streaming)
+ *  - Cancellation via an AbortSignal, either passed explicitly or bound
+ *    to the current MCP request with withGraphSignal()
+ *  - A typed GraphError carrying status, Graph error code and request-id
+ *
+ * graphBatch() combines many GETs into JSON $batch requests of up to 20,
+ * sent with bounded concurrency, retrying throttled sub-requests.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// ── Configuration ───────────────────────────────────────────────────
+const GRAPH_TIMEOUT_MS = parseInt(process.env.GRAPH_TIMEOUT_MS || '30000', 10);
+const GRAPH_MAX_RETRIES = parseInt(process.env.GRAPH_MAX_RETRIES || '3', 10);
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+const GRAPH_BATCH_CONCURRENCY = parseInt(process.env.GRAPH_BATCH_CONCURRENCY || '4', 10);
+const BATCH_ENDPOINT = 'https://graph.microsoft.com/v1.0/$batch';
+const MAX_BATCH_SIZE = 20;
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * A failed Graph request. `status` is 0 when no HTTP response was
+ * received (timeout, cancellation or network failure).
+ */
+export class GraphError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly requestId?: string;
+  readonly retryAfterSeconds?: number;
+  readonly url: string;
+
+  constructor(options: {
+    status: number;
+    code: string;
+    message: string;
+    url: string;
+    requestId?: string;
+    retryAfterSeconds?: number;
+  }) {
+    super(`Graph API ${options.status || 'error'} ${options.code}: ${options.message}`);
+    this.name = 'GraphError';
+    this.status = options.status;
+    this.code = options.code;
+    this.requestId = options.requestId;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.url = options.url;
+  }
+
+  get isThrottled(): boolean {
+    return this.status === 429 || this.status === 503;
+  }
+
+  get isTimeout(): boolean {
+    return this.code === 'RequestTimeout';
+  }
+}
+
+export interface GraphRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Uint8Array;
+  /** Abort the request (and any pending retry) when this signal fires */
+  signal?: AbortSignal;
+  /** Override the default per-request timeout */
+  timeoutMs?: number;
+}
+
+/**
+ * One sub-request of a JSON $batch call. `url` is relative to the Graph
+ * version root, e.g. "/me/onlineMeetings/{id}/transcripts".
+ */
+export interface BatchRequest {
+  id: string;
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface BatchResponse<T = unknown> {
+  id: string;
+  status: number;
+  body: T;
+}
+
+// ── Request Cancellation ────────────────────────────────────────────
+
+const signalStore = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run `fn` with every Graph request inside it bound to `signal`, so an
+ * MCP client cancelling a tool call also cancels its Graph traffic.
+ */
+export function withGraphSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  return signal ? signalStore.run(signal, fn) : fn();
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Perform a Graph request with retry, timeout and typed errors.
+ *
+ * @param accessToken - Bearer token, or null for pre-authenticated URLs
+ *                      (e.g. SharePoint upload sessions)
+ * @returns The successful (2xx) response, body unread
+ * @throws GraphError on any non-2xx response or transport failure
+ */
+export async function graphFetch(
+  url: string,
+  accessToken: string | null,
+  options: GraphRequestOptions = {}
+): Promise<Response> {
+  const signal = options.signal ?? signalStore.getStore();
+  const headers: Record<string, string> = { ...options.headers };
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(url, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body,
+      }, options.timeoutMs ?? GRAPH_TIMEOUT_MS, signal);
+    } catch (err) {
+      const error = toTransportError(err, url, options.timeoutMs ?? GRAPH_TIMEOUT_MS, signal);
+      if (error.code === 'NetworkError' && attempt < GRAPH_MAX_RETRIES) {
+        await retryDelay(attempt, undefined, url, error.code, signal);
+        continue;
+      }
+      throw error;
+    }
+
+    if (res.ok) return res;
+
+    const error = await toGraphError(res, url);
+    if (RETRYABLE_STATUSES.has(res.status) && attempt < GRAPH_MAX_RETRIES) {
+      await retryDelay(attempt, error.retryAfterSeconds, url, String(res.status), signal);
+      continue;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run many GET requests through Graph JSON batching.
+ *
+ * Requests are split into $batch calls of up to 20, at most
+ * GRAPH_BATCH_CONCURRENCY in flight at once. Sub-requests that come back
+ * throttled (429/503) are retried in a later round, up to
+ * GRAPH_MAX_RETRIES times; other failures are returned as-is so the
+ * caller can decide what a 403 or 404 means for each item.
+ *
+ * @returns One response per request, keyed by request id
+ */
+export async function graphBatch<T = unknown>(
+  accessToken: string,
+  requests: BatchRequest[]
+): Promise<Map<string, BatchResponse<T>>> {
+  const results = new Map<string, BatchResponse<T>>();
+  let pending = requests;
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    const groups: BatchRequest[][] = [];
+    for (let i = 0; i < pending.length; i += MAX_BATCH_SIZE) {
+      groups.push(pending.slice(i, i + MAX_BATCH_SIZE));
+    }
+
+    const responses = (
+      await mapWithConcurrency(groups, GRAPH_BATCH_CONCURRENCY, (group) => sendBatch<T>(accessToken, group))
+    ).flat();
+
+    const throttled: BatchRequest[] = [];
+    let retryAfterSeconds: number | undefined;
+    for (const r of responses) {
+      if ((r.status === 429 || r.status === 503) && attempt < GRAPH_MAX_RETRIES) {
+        throttled.push(pending.find((p) => p.id === r.id)!);
+        const after = parseRetryAfter(r.headers?.['Retry-After'] ?? r.headers?.['retry-after'] ?? null);
+        retryAfterSeconds = Math.max(retryAfterSeconds ?? 0, after ?? 0);
+      } else {
+        results.set(r.id, { id: r.id, status: r.status, body: r.body });
+      }
+    }
+
+    if (throttled.length > 0) {
+      await retryDelay(
+        attempt, retryAfterSeconds || undefined, BATCH_ENDPOINT,
+        `${throttled.length} throttled sub-requests`, signalStore.getStore()
+      );
+    }
+    pending = throttled;
+  }
+
+  return results;
+}
+
+// ── Internals ───────────────────────────────────────────────────────
+
+async function sendBatch<T>(
+  accessToken: string,
+  group: BatchRequest[]
+): Promise<Array<BatchResponse<T> & { headers?: Record<string, string> }>> {
+  const res = await graphFetch(BATCH_ENDPOINT, accessToken, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      requests: group.map((r) => ({ id: r.id, method: 'GET', url: r.url, headers: r.headers })),
+    }),
+  });
+  const data = (await res.json()) as {
+    responses: Array<BatchResponse<T> & { headers?: Record<string, string> }>;
+  };
+  return data.responses || [];
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new TimeoutSignal()), timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) onAbort();
+
+  try {
+    // The timeout only covers waiting for headers; the body may stream on
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+class TimeoutSignal extends Error {}
+
+function toTransportError(
+  err: unknown,
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): GraphError {
+  if (signal?.aborted) {
+    return new GraphError({ status: 0, code: 'RequestCancelled', message: 'Request was cancelled', url });
+  }
+  if (err instanceof TimeoutSignal || (err instanceof Error && err.cause instanceof TimeoutSignal)) {
+    return new GraphError({
+      status: 0,
+      code: 'RequestTimeout',
+      message: `No response within ${Math.round(timeoutMs / 1000)}s`,
+      url,
+    });
+  }
+  return new GraphError({ status: 0, code: 'NetworkError', message: String(err), url });
+}
+
+/**
+ * Build a GraphError from a failed response, reading Graph's standard
+ * error envelope: { error: { code, message, innerError: { request-id } } }.
+ */
+async function toGraphError(res: Response, url: string): Promise<GraphError> {
+  const text = await res.text().catch(() => '');
+  let code = `Http${res.status}`;
+  let message = text || res.statusText;
+  let requestId = res.headers.get('request-id') || undefined;
+
+  try {
+    const body = JSON.parse(text) as {
+      error?: { code?: string; message?: string; innerError?: Record<string, string> };
+    };
+    if (body.error) {
+      code = body.error.code || code;
+      message = body.error.message || message;
+      requestId = requestId || body.error.innerError?.['request-id'];
+    }
+  } catch {
+    // Not JSON — keep the raw text
+  }
+
+  return new GraphError({
+    status: res.status,
+    code,
+    message,
+    url,
+    requestId,
+    retryAfterSeconds: parseRetryAfter(res.headers.get('retry-after')),
+  });
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into seconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+async function retryDelay(
+  attempt: number,
+  retryAfterSeconds: number | undefined,
+  url: string,
+  reason: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  const delayMs = retryAfterSeconds !== undefined
+    ? retryAfterSeconds * 1000
+    : backoff / 2 + Math.random() * (backoff / 2);
+
+  console.warn(
+    `[graph] ${reason} on ${url.replace(/\?.*/, '?...')} — retry ${attempt + 1}/${GRAPH_MAX_RETRIES} ` +
+    `in ${Math.round(delayMs)}ms`
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GraphError({ status: 0, code: 'RequestCancelled', message: 'Request was cancelled', url }));
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -4,14 +4,47 @@
  * Implements the multi-hop chain for transcript retrieval:
  *   1. GET /me/calendarView             → find Teams calendar events
  *   2. GET /me/onlineMeetings?$filter=JoinWebUrl eq '...' → resolve meeting ID
+ *      (batched through /$batch when resolving many events)
  *   3. GET /me/onlineMeetings/{id}/transcripts  → find transcript IDs
  *   4. GET /me/onlineMeetings/{id}/transcripts/{tid}/content → download VTT
  *
- * All calls use the delegated Graph token obtained via OBO.
+ * Recordings follow the same shape under /me/onlineMeetings/{id}/recordings.
+ *
+ * All calls use the delegated Graph token obtained via OBO and go
+ * through graphFetch() for retries, timeouts and typed errors.
+ *
+ * In application-permission mode the same calls target another user:
+ * withGraphUser() swaps /me for /users/{id} on every path in its scope.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { BatchRequest, GraphError, graphBatch, graphFetch } from './graph-client';
+import { reportProgress } from './progress';
+import { zonedDayStart, zonedDayEnd } from './timezone';
+
 const GRAPH_BASE = 'https://graph.microsoft.com/v1.0';
 
+// Upper bound on items collected from a paged list call, so a single
+// tool call stays bounded even for very busy calendars
+const GRAPH_MAX_ITEMS = parseInt(process.env.GRAPH_MAX_ITEMS || '500', 10);
+
+// Calendar events resolved per round of $batch calls in listMeetings
+// (4 concurrent batches × 20 requests)
+const RESOLVE_SLICE_SIZE = 80;
+
+// Upload session chunks must be a multiple of 320 KiB; 10 MiB = 32 × 320 KiB
+const UPLOAD_CHUNK_SIZE = 32 * 320 * 1024;
+
+// A chunk PUT only gets response headers once its 10 MiB body is sent, so
+// it needs far longer than GRAPH_TIMEOUT_MS on a slow link
+const UPLOAD_CHUNK_TIMEOUT_MS = 5 * 60 * 1000;
+
 // ── Types ───────────────────────────────────────────────────────────
 
 export interface OnlineMeeting {
@@ -20,6 +53,8 @@ export interface OnlineMeeting {
   startDateTime: string;
   endDateTime: string;
   joinWebUrl: string;
+  /** From the calendar event, when the meeting was found through the calendar */
+  organizer?: { name?: string; address?: string };
 }
 
 export interface TranscriptInfo {
@@ -29,46 +64,196 @@ export interface TranscriptInfo {
   transcriptContentUrl: string;
 }
 
+/**
+ * A transcript discovered without going through the calendar — from an
+ * online meeting (e.g. "Meet now") or an ad-hoc Teams call.
+ */
+export interface AdhocTranscriptInfo {
+  id: string;
+  source: 'onlineMeeting' | 'adhocCall';
+  meetingId?: string;
+  callId?: string;
+  createdDateTime: string;
+  endDateTime?: string;
+  organizerId?: string;
+  transcriptContentUrl: string;
+}
+
+export interface RecordingInfo {
+  id: string;
+  meetingId: string;
+  createdDateTime: string;
+  endDateTime: string;
+  recordingContentUrl: string;
+}
+
+export interface UserProfile {
+  id: string;
+  displayName: string;
+  mail: string | null;
+  userPrincipalName: string;
+  jobTitle?: string | null;
+}
+
+/**
+ * Date filter for meeting discovery. Dates are YYYY-MM-DD calendar days
+ * interpreted in `timeZone` (an IANA name; default UTC).
+ */
+export interface DateRangeOptions {
+  filterDate?: string;
+  startDate?: string;
+  endDate?: string;
+  timeZone?: string;
+}
+
+/**
+ * A Graph change-notification subscription, as returned by /subscriptions.
+ */
+export interface GraphSubscription {
+  id: string;
+  resource: string;
+  changeType: string;
+  notificationUrl: string;
+  expirationDateTime: string;
+}
+
+/** What SharePoint does when an uploaded file's name is already taken */
+export type ConflictBehavior = 'replace' | 'fail';
+
 interface CalendarEvent {
   subject: string;
   start: { dateTime: string; timeZone: string };
   end: { dateTime: string; timeZone: string };
   isOnlineMeeting: boolean;
   onlineMeeting?: { joinUrl: string };
+  organizer?: { emailAddress?: { name?: string; address?: string } };
+}
+
+// ── Target User ─────────────────────────────────────────────────────
+
+const userStore = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` with every Graph call inside it addressed to `userId` (object
+ * ID or UPN) instead of the signed-in user. Used in application-permission
+ * mode, where there is no /me.
+ */
+export function withGraphUser<T>(userId: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return userId ? userStore.run(userId, fn) : fn();
+}
+
+/**
+ * Path prefix of the user Graph calls act on: "/me", or "/users/{id}"
+ * inside withGraphUser() or for an explicit user ID.
+ */
+function userRoot(userId = userStore.getStore()): string {
+  return userId ? `/users/${encodeURIComponent(userId)}` : '/me';
 }
 
 // ── Graph Helpers ───────────────────────────────────────────────────
 
+// All Graph timestamps are requested in UTC so they parse consistently;
+// conversion to the caller's time zone happens at display time.
 async function graphGet(url: string, accessToken: string, accept?: string): Promise<Response> {
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${accessToken}`,
-    Accept: accept || 'application/json',
-    Prefer: 'outlook.timezone="UTC"',
-  };
-  const res = await fetch(url, { headers });
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Graph API ${res.status}: ${body}`);
-  }
-  return res;
+  return graphFetch(url, accessToken, {
+    headers: {
+      Accept: accept || 'application/json',
+      Prefer: 'outlook.timezone="UTC"',
+    },
+  });
 }
 
 /**
- * Non-throwing GET that returns the parsed JSON or null on error.
+ * Whether a failed lookup should be treated as "no result" by the
+ * non-throwing helpers. Bad requests, missing items and access denials
+ * (e.g. cross-tenant meetings) are expected; throttling, timeouts,
+ * auth and server errors are not, and propagate to the tool handler.
+ */
+function isExpectedLookupFailure(err: unknown): boolean {
+  return err instanceof GraphError && [400, 403, 404].includes(err.status);
+}
+
+/**
+ * Non-throwing GET that returns the parsed JSON or null on an expected
+ * lookup failure (see isExpectedLookupFailure).
  */
 async function graphGetSafe<T>(url: string, accessToken: string): Promise<T | null> {
   try {
     const res = await graphGet(url, accessToken);
     return (await res.json()) as T;
   } catch (err) {
+    if (!isExpectedLookupFailure(err)) throw err;
     console.error('[graph] GET failed:', url.replace(/\?.*/, '?...'), String(err));
     return null;
   }
 }
 
+interface GraphPage<T> {
+  value?: T[];
+  '@odata.nextLink'?: string;
+}
+
+/**
+ * Iterate the pages of a Graph collection, following @odata.nextLink.
+ */
+async function* graphPages<T>(url: string, accessToken: string): AsyncGenerator<T[]> {
+  let next: string | undefined = url;
+  while (next) {
+    const res = await graphGet(next, accessToken);
+    const page = (await res.json()) as GraphPage<T>;
+    yield page.value || [];
+    next = page['@odata.nextLink'];
+  }
+}
+
+/**
+ * GET every item of a paged Graph collection, up to maxItems.
+ */
+async function graphGetPaged<T>(
+  url: string,
+  accessToken: string,
+  maxItems: number = GRAPH_MAX_ITEMS
+): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of graphPages<T>(url, accessToken)) {
+    items.push(...page);
+    if (items.length >= maxItems) {
+      console.log(`[graph] Stopped paging at ${maxItems} items:`, url.replace(/\?.*/, '?...'));
+      return items.slice(0, maxItems);
+    }
+  }
+  return items;
+}
+
 /**
- * Fetch the calendarView events for a date range.
- * Returns raw calendar events (before any filtering/resolution).
+ * Non-throwing paged GET. On an expected lookup failure, returns the
+ * items collected so far.
+ */
+async function graphGetPagedSafe<T>(
+  url: string,
+  accessToken: string,
+  maxItems: number = GRAPH_MAX_ITEMS
+): Promise<T[]> {
+  const items: T[] = [];
+  try {
+    for await (const page of graphPages<T>(url, accessToken)) {
+      items.push(...page);
+      if (items.length >= maxItems) {
+        console.log(`[graph] Stopped paging at ${maxItems} items:`, url.replace(/\?.*/, '?...'));
+        return items.slice(0, maxItems);
+      }
+    }
+  } catch (err) {
+    if (!isExpectedLookupFailure(err)) throw err;
+    console.error('[graph] GET failed:', url.replace(/\?.*/, '?...'), String(err));
+  }
+  return items;
+}
+
+/**
+ * Fetch the calendarView events for a date range, following paging
+ * up to maxEvents. Returns raw calendar events (before any
+ * filtering/resolution).
  */
 async function fetchCalendarEvents(
   accessToken: string,
@@ -79,42 +264,49 @@ async function fetchCalendarEvents(
   const params = new URLSearchParams({
     startDateTime: startDT,
     endDateTime: endDT,
-    $select: 'id,subject,start,end,isOnlineMeeting,onlineMeeting',
+    $select: 'id,subject,start,end,isOnlineMeeting,onlineMeeting,organizer',
     $orderby: 'start/dateTime desc',
     $top: String(Math.min(maxEvents, 100)),
   });
 
-  const url = `${GRAPH_BASE}/me/calendarView?${params.toString()}`;
+  const url = `${GRAPH_BASE}${userRoot()}/calendarView?${params.toString()}`;
   console.log('[graph] calendarView request:', startDT, '→', endDT);
-  const data = await graphGetSafe<{ value: CalendarEvent[] }>(url, accessToken);
-  const events = data?.value || [];
+  const events = await graphGetPagedSafe<CalendarEvent>(
+    url, accessToken, Math.min(maxEvents, GRAPH_MAX_ITEMS)
+  );
   console.log(`[graph] calendarView returned ${events.length} events`);
   return events;
 }
 
 /**
  * Build the calendarView date range from options.
+ *
+ * A single `filterDate` covers that whole day; `startDate`/`endDate`
+ * give an inclusive range of days. Day boundaries are midnight in
+ * `timeZone` (default UTC). A missing start/end falls back to the
+ * default window of 30 days back and 7 days forward.
  */
-function buildDateRange(filterDate?: string): { startDT: string; endDT: string } {
-  if (filterDate) {
-    return {
-      startDT: `${filterDate}T00:00:00Z`,
-      endDT: `${filterDate}T23:59:59Z`,
-    };
-  }
-  // Default: 30 days back and 7 days forward
+function buildDateRange(range: DateRangeOptions = {}): { startDT: string; endDT: string } {
+  const timeZone = range.timeZone || 'UTC';
+  const startDate = range.filterDate || range.startDate;
+  const endDate = range.filterDate || range.endDate;
+
   const since = new Date();
   since.setDate(since.getDate() - 30);
   const ahead = new Date();
   ahead.setDate(ahead.getDate() + 7);
-  return { startDT: since.toISOString(), endDT: ahead.toISOString() };
+
+  return {
+    startDT: startDate ? zonedDayStart(startDate, timeZone) : since.toISOString(),
+    endDT: endDate ? zonedDayEnd(endDate, timeZone) : ahead.toISOString(),
+  };
 }
 
 /**
  * Resolve a Teams join URL to an onlineMeeting object.
  * Tries the exact URL first, then the decoded variant.
  */
-async function resolveOnlineMeeting(
+export async function resolveOnlineMeeting(
   accessToken: string,
   joinUrl: string
 ): Promise<OnlineMeeting | null> {
@@ -137,33 +329,70 @@ async function tryResolveByJoinUrl(
   accessToken: string,
   joinUrl: string
 ): Promise<OnlineMeeting | null> {
-  const filter = `JoinWebUrl eq '${joinUrl}'`;
-  const url = `${GRAPH_BASE}/me/onlineMeetings?$filter=${encodeURIComponent(filter)}`;
+  const url = `${GRAPH_BASE}${joinUrlFilterPath(joinUrl)}`;
   const data = await graphGetSafe<{ value: OnlineMeeting[] }>(url, accessToken);
   return data?.value?.[0] ?? null;
 }
 
+function joinUrlFilterPath(joinUrl: string): string {
+  const filter = `JoinWebUrl eq '${joinUrl}'`;
+  return `${userRoot()}/onlineMeetings?$filter=${encodeURIComponent(filter)}`;
+}
+
 /**
- * Convert a CalendarEvent into an OnlineMeeting by resolving via the
- * onlineMeetings API. Returns null only if the event has no join URL.
+ * Convert CalendarEvents into OnlineMeetings by resolving their join URLs
+ * through Graph $batch (20 per request, bounded concurrency) instead of
+ * one round trip per event. Mirrors resolveOnlineMeeting(): the exact URL
+ * first, then the decoded variant for events that did not match.
+ *
+ * @returns One entry per event, in order; null where resolution failed
  */
-async function resolveCalendarEvent(
+async function resolveCalendarEvents(
   accessToken: string,
-  event: CalendarEvent
-): Promise<OnlineMeeting | null> {
-  const joinUrl = event.onlineMeeting?.joinUrl;
-  if (!joinUrl) return null;
-
-  const meeting = await resolveOnlineMeeting(accessToken, joinUrl);
-  if (meeting) {
-    // Always prefer the calendar event subject — it's what the user sees
-    meeting.subject = event.subject || meeting.subject;
-    return meeting;
+  events: CalendarEvent[]
+): Promise<Array<OnlineMeeting | null>> {
+  const results: Array<OnlineMeeting | null> = events.map(() => null);
+
+  const attempts: Array<(url: string) => string> = [
+    (url) => url,
+    (url) => decodeURIComponent(url),
+  ];
+
+  for (const [pass, variant] of attempts.entries()) {
+    const requests: BatchRequest[] = [];
+    events.forEach((event, i) => {
+      const joinUrl = event.onlineMeeting?.joinUrl;
+      if (!joinUrl || results[i]) return;
+      const candidate = variant(joinUrl);
+      if (pass > 0 && candidate === joinUrl) return;
+      requests.push({ id: String(i), url: joinUrlFilterPath(candidate) });
+    });
+    if (requests.length === 0) continue;
+
+    const responses = await graphBatch<{ value?: OnlineMeeting[] }>(accessToken, requests);
+    for (const [id, response] of responses) {
+      const meeting = response.status === 200 ? response.body?.value?.[0] : undefined;
+      if (meeting) {
+        results[Number(id)] = meeting;
+      } else if (response.status !== 200) {
+        console.error(`[graph] Batch resolve failed (${response.status}) for "${events[Number(id)].subject}"`);
+      }
+    }
   }
 
-  // Resolution failed — log it but return null (no meeting ID = can't fetch transcripts)
-  console.warn(`[graph] Resolution failed for "${event.subject}" (${joinUrl})`);
-  return null;
+  events.forEach((event, i) => {
+    const meeting = results[i];
+    if (meeting) {
+      // Always prefer the calendar event subject — it's what the user sees
+      meeting.subject = event.subject || meeting.subject;
+      if (event.organizer?.emailAddress) meeting.organizer = { ...event.organizer.emailAddress };
+    } else if (event.onlineMeeting?.joinUrl) {
+      // Resolution failed — log it (no meeting ID = can't fetch transcripts)
+      console.warn(`[graph] Resolution failed for "${event.subject}" (${event.onlineMeeting.joinUrl})`);
+    }
+  });
+
+  return results;
 }
 
 // ── Public API ──────────────────────────────────────────────────────
@@ -174,33 +403,51 @@ async function resolveCalendarEvent(
  * Uses /me/calendarView to find calendar events that are online meetings,
  * then resolves each to an onlineMeeting object to get the meeting ID
  * needed for transcript retrieval.
+ *
+ * `subject` and `organizer` filter the calendar events before the
+ * (expensive) resolution; with either set, the whole date range is
+ * scanned rather than a few times `top` events.
  */
 export async function listMeetings(
   accessToken: string,
-  options?: {
+  options?: DateRangeOptions & {
     top?: number;
-    filterDate?: string; // ISO date string, e.g. "2026-02-17"
+    /** Only events whose subject matches */
+    subject?: RegExp;
+    /** Only events whose organizer's name or email address contains this (case-insensitive) */
+    organizer?: string;
   }
 ): Promise<OnlineMeeting[]> {
   const limit = options?.top ?? 10;
-  const { startDT, endDT } = buildDateRange(options?.filterDate);
+  const { startDT, endDT } = buildDateRange(options);
+  const organizer = options?.organizer?.trim().toLowerCase();
+  const filtered = Boolean(options?.subject || organizer);
 
-  const events = await fetchCalendarEvents(
-    accessToken, startDT, endDT,
-    Math.min(limit * 3, 100)
-  );
+  await reportProgress('Searching calendar');
+  const events = await fetchCalendarEvents(accessToken, startDT, endDT, filtered ? GRAPH_MAX_ITEMS : limit * 3);
 
-  // Filter client-side to events that have a Teams join URL
-  const teamsMeetings = events.filter((e) => e.onlineMeeting?.joinUrl);
-  console.log(`[graph] ${teamsMeetings.length} of ${events.length} events have a Teams join URL`);
+  // Filter client-side to events that have a Teams join URL (and match the filters)
+  const teamsMeetings = events.filter((e) =>
+    e.onlineMeeting?.joinUrl &&
+    (!options?.subject || options.subject.test(e.subject || '')) &&
+    (!organizer || [e.organizer?.emailAddress?.name, e.organizer?.emailAddress?.address]
+      .some((value) => value?.toLowerCase().includes(organizer)))
+  );
+  console.log(
+    `[graph] ${teamsMeetings.length} of ${events.length} events have a Teams join URL` +
+    (filtered ? ' and match the filters' : '')
+  );
 
-  // Resolve each calendar event to an onlineMeeting object
+  // Resolve calendar events to onlineMeeting objects in batched slices,
+  // stopping once enough have resolved
   const resolved: OnlineMeeting[] = [];
-  for (const event of teamsMeetings) {
-    if (resolved.length >= limit) break;
-    const meeting = await resolveCalendarEvent(accessToken, event);
-    if (meeting) {
-      resolved.push(meeting);
+  for (let i = 0; i < teamsMeetings.length && resolved.length < limit; i += RESOLVE_SLICE_SIZE) {
+    const slice = teamsMeetings.slice(i, i + RESOLVE_SLICE_SIZE);
+    await reportProgress(`Resolving meetings ${i + 1}-${i + slice.length} of ${teamsMeetings.length}`);
+    for (const meeting of await resolveCalendarEvents(accessToken, slice)) {
+      if (meeting && resolved.length < limit) {
+        resolved.push(meeting);
+      }
     }
   }
 
@@ -208,6 +455,28 @@ export async function listMeetings(
   return resolved;
 }
 
+/**
+ * Fetch the signed-in user's basic profile.
+ */
+export async function getProfile(accessToken: string): Promise<UserProfile> {
+  const url = `${GRAPH_BASE}${userRoot()}?$select=id,displayName,mail,userPrincipalName,jobTitle`;
+  const res = await graphGet(url, accessToken);
+  return (await res.json()) as UserProfile;
+}
+
+/**
+ * Fetch a single online meeting by its ID (as printed by list_recent_meetings).
+ * Throws if the meeting does not exist or the user cannot access it.
+ */
+export async function getMeetingById(
+  accessToken: string,
+  meetingId: string
+): Promise<OnlineMeeting> {
+  const url = `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}`;
+  const res = await graphGet(url, accessToken);
+  return (await res.json()) as OnlineMeeting;
+}
+
 /**
  * List transcripts available for a specific online meeting.
  */
@@ -215,16 +484,36 @@ export async function listTranscripts(
   accessToken: string,
   meetingId: string
 ): Promise<TranscriptInfo[]> {
-  const url = `${GRAPH_BASE}/me/onlineMeetings/${meetingId}/transcripts`;
-  const res = await graphGet(url, accessToken);
-  const data = await res.json() as { value: Array<TranscriptInfo & { contentUrl?: string }> };
-  return (data.value || []).map((t) => ({
+  const url = `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}/transcripts`;
+  const transcripts = await graphGetPaged<TranscriptInfo & { contentUrl?: string }>(url, accessToken);
+  return transcripts.map((t) => ({
     ...t,
     meetingId,
-    transcriptContentUrl: t.contentUrl || `${GRAPH_BASE}/me/onlineMeetings/${meetingId}/transcripts/${t.id}/content`,
+    transcriptContentUrl: t.contentUrl || `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}/transcripts/${t.id}/content`,
   }));
 }
 
+/**
+ * Check which meetings have at least one transcript, via Graph $batch.
+ * Meetings whose check fails (e.g. 403 for cross-tenant) map to false.
+ */
+export async function checkTranscriptAvailability(
+  accessToken: string,
+  meetingIds: string[]
+): Promise<Map<string, boolean>> {
+  const responses = await graphBatch<{ value?: unknown[] }>(
+    accessToken,
+    meetingIds.map((id, i) => ({ id: String(i), url: `${userRoot()}/onlineMeetings/${id}/transcripts` }))
+  );
+
+  const availability = new Map<string, boolean>();
+  meetingIds.forEach((id, i) => {
+    const response = responses.get(String(i));
+    availability.set(id, response?.status === 200 && (response.body?.value?.length ?? 0) > 0);
+  });
+  return availability;
+}
+
 /**
  * Download the raw VTT content of a transcript.
  */
@@ -233,18 +522,131 @@ export async function getTranscriptContent(
   meetingId: string,
   transcriptId: string
 ): Promise<string> {
-  const url = `${GRAPH_BASE}/me/onlineMeetings/${meetingId}/transcripts/${transcriptId}/content?$format=text/vtt`;
+  const url = `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}/transcripts/${transcriptId}/content?$format=text/vtt`;
   const res = await graphGet(url, accessToken, 'text/vtt');
   return res.text();
 }
 
+// ── Calendar-less Discovery ─────────────────────────────────────────
+
+interface CallTranscript {
+  id: string;
+  meetingId?: string;
+  callId?: string;
+  createdDateTime: string;
+  endDateTime?: string;
+  transcriptContentUrl?: string;
+  meetingOrganizer?: { user?: { id?: string } };
+}
+
 /**
- * Find meetings whose subject matches a search term (case-insensitive).
+ * Enumerate every transcript for the signed-in user in a date range,
+ * without needing a calendar event:
+ *   - onlineMeetings/getAllTranscripts → meetings the user organised,
+ *     including "Meet now" sessions and meetings with no invite
+ *   - adhocCalls/getAllTranscripts     → ad-hoc 1:1 and group calls
  *
- * Optimised flow: fetches calendar events, filters by name FIRST (cheap),
- * then resolves only the matching events to online meetings (expensive).
- * This avoids calling resolveOnlineMeeting for irrelevant events.
+ * Each source is queried independently; a failure in one (e.g. the
+ * tenant has no ad-hoc call transcripts API yet) is logged and skipped.
  */
+export async function listAllTranscripts(
+  accessToken: string,
+  userId: string,
+  startDT: string,
+  endDT: string
+): Promise<AdhocTranscriptInfo[]> {
+  const range = `startDateTime=${startDT},endDateTime=${endDT}`;
+  const root = GRAPH_BASE + userRoot(userId);
+  const id = encodeURIComponent(userId);
+  const sources: Array<{ source: AdhocTranscriptInfo['source']; url: string }> = [
+    {
+      source: 'onlineMeeting',
+      url: `${root}/onlineMeetings/getAllTranscripts(meetingOrganizerUserId='${id}',${range})`,
+    },
+    {
+      source: 'adhocCall',
+      url: `${root}/adhocCalls/getAllTranscripts(userId='${id}',${range})`,
+    },
+  ];
+
+  const results: AdhocTranscriptInfo[] = [];
+  for (const { source, url } of sources) {
+    const transcripts = await graphGetPagedSafe<CallTranscript>(url, accessToken);
+    console.log(`[graph] getAllTranscripts (${source}) returned ${transcripts.length} transcripts`);
+
+    for (const t of transcripts) {
+      const contentUrl = t.transcriptContentUrl || (source === 'adhocCall'
+        ? `${root}/adhocCalls/${t.callId}/transcripts/${t.id}/content`
+        : `${root}/onlineMeetings/${t.meetingId}/transcripts/${t.id}/content`);
+      results.push({
+        id: t.id,
+        source,
+        meetingId: t.meetingId,
+        callId: t.callId,
+        createdDateTime: t.createdDateTime,
+        endDateTime: t.endDateTime,
+        organizerId: t.meetingOrganizer?.user?.id,
+        transcriptContentUrl: contentUrl,
+      });
+    }
+  }
+
+  return results.sort((a, b) => Date.parse(b.createdDateTime) - Date.parse(a.createdDateTime));
+}
+
+/**
+ * Download the raw VTT content of a transcript from its content URL.
+ */
+export async function getTranscriptContentByUrl(
+  accessToken: string,
+  contentUrl: string
+): Promise<string> {
+  const separator = contentUrl.includes('?') ? '&' : '?';
+  const res = await graphGet(`${contentUrl}${separator}$format=text/vtt`, accessToken, 'text/vtt');
+  return res.text();
+}
+
+// ── Recordings ──────────────────────────────────────────────────────
+
+/**
+ * List recordings available for a specific online meeting.
+ */
+export async function listRecordings(
+  accessToken: string,
+  meetingId: string
+): Promise<RecordingInfo[]> {
+  const url = `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}/recordings`;
+  const recordings = await graphGetPaged<RecordingInfo & { contentUrl?: string }>(url, accessToken);
+  return recordings.map((r) => ({
+    ...r,
+    meetingId,
+    recordingContentUrl: r.recordingContentUrl || r.contentUrl ||
+      `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}/recordings/${r.id}/content`,
+  }));
+}
+
+/**
+ * Open a download stream for a recording's content (MP4).
+ * The body is returned unread so large recordings never sit in memory.
+ */
+export async function downloadRecording(
+  accessToken: string,
+  meetingId: string,
+  recordingId: string
+): Promise<{ body: ReadableStream<Uint8Array>; size: number | null; contentType: string }> {
+  const url = `${GRAPH_BASE}${userRoot()}/onlineMeetings/${meetingId}/recordings/${recordingId}/content`;
+  const res = await graphGet(url, accessToken, 'video/mp4');
+  if (!res.body) {
+    throw new Error(`Recording ${recordingId} returned an empty body`);
+  }
+  const length = res.headers.get('content-length');
+  return {
+    body: res.body,
+    size: length ? parseInt(length, 10) : null,
+    contentType: res.headers.get('content-type') || 'video/mp4',
+  };
+}
+
 // ── SharePoint Upload ───────────────────────────────────────────
 
 /**
@@ -288,6 +690,9 @@ export async function resolveSiteId(
  * Uses the PUT /sites/{siteId}/drive/root:/{path}/{filename}:/content endpoint.
  * This handles files up to 4MB in a single request (transcripts are well under this).
  *
+ * @param contentType - MIME type of the content, e.g. "text/markdown; charset=utf-8"
+ * @param conflictBehavior - "fail" to keep an existing file (Graph answers 409)
+ *                           instead of replacing it
  * @returns The webUrl of the uploaded file
  */
 export async function uploadToSharePoint(
@@ -295,7 +700,9 @@ export async function uploadToSharePoint(
   siteId: string,
   folderPath: string,
   fileName: string,
-  content: string
+  content: string,
+  contentType = 'text/plain',
+  conflictBehavior: ConflictBehavior = 'replace'
 ): Promise<string> {
   // Ensure folder path doesn't start/end with slashes
   const cleanFolder = folderPath.replace(/^\/+|\/+$/g, '');
@@ -303,39 +710,301 @@ export async function uploadToSharePoint(
     ? `${cleanFolder}/${fileName}`
     : fileName;
 
-  const url = `${GRAPH_BASE}/sites/${siteId}/drive/root:/${encodedPath}:/content`;
+  const url = `${GRAPH_BASE}/sites/${siteId}/drive/root:/${encodedPath}:/content` +
+    `?@microsoft.graph.conflictBehavior=${conflictBehavior}`;
   console.log(`[graph] Uploading to SharePoint: ${encodedPath}`);
 
-  const res = await fetch(url, {
+  const res = await graphFetch(url, accessToken, {
     method: 'PUT',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'text/plain',
-    },
+    headers: { 'Content-Type': contentType },
     body: content,
   });
 
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`SharePoint upload failed ${res.status}: ${body}`);
-  }
-
   const data = (await res.json()) as { webUrl: string; name: string; size: number };
   console.log(`[graph] Upload complete: ${data.name} (${data.size} bytes) → ${data.webUrl}`);
   return data.webUrl;
 }
 
+/**
+ * Names of the files in a SharePoint document library folder, lowercased
+ * (SharePoint compares file names case-insensitively). A folder that does
+ * not exist yet has no files. Pages through the whole folder, without the
+ * GRAPH_MAX_ITEMS cap, so no existing file is missed.
+ */
+export async function listSharePointFiles(
+  accessToken: string,
+  siteId: string,
+  folderPath: string
+): Promise<Set<string>> {
+  const cleanFolder = folderPath.replace(/^\/+|\/+$/g, '');
+  const children = cleanFolder ? `root:/${cleanFolder}:/children` : 'root/children';
+  const url = `${GRAPH_BASE}/sites/${siteId}/drive/${children}?$select=name,file&$top=200`;
+
+  const names = new Set<string>();
+  try {
+    for await (const page of graphPages<{ name: string; file?: object }>(url, accessToken)) {
+      for (const item of page) {
+        if (item.file) names.add(item.name.toLowerCase());
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof GraphError && err.status === 404)) throw err;
+  }
+  console.log(`[graph] ${names.size} file(s) in SharePoint folder "${cleanFolder}"`);
+  return names;
+}
+
+/**
+ * Download a text file from a SharePoint document library folder.
+ *
+ * @returns The file content, or null if the file does not exist
+ */
+export async function downloadFromSharePoint(
+  accessToken: string,
+  siteId: string,
+  folderPath: string,
+  fileName: string
+): Promise<string | null> {
+  const cleanFolder = folderPath.replace(/^\/+|\/+$/g, '');
+  const encodedPath = cleanFolder ? `${cleanFolder}/${fileName}` : fileName;
+
+  const url = `${GRAPH_BASE}/sites/${siteId}/drive/root:/${encodedPath}:/content`;
+  try {
+    const res = await graphGet(url, accessToken, '*/*');
+    return await res.text();
+  } catch (err) {
+    if (err instanceof GraphError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+/**
+ * Upload a large file to a SharePoint document library folder in chunks.
+ *
+ * Creates an upload session (POST .../createUploadSession) and PUTs the
+ * content in 10 MiB slices (a multiple of the required 320 KiB), reading
+ * the source stream incrementally. Used for recordings, which routinely
+ * exceed the 4MB single-request limit of uploadToSharePoint().
+ *
+ * @param size - Total size in bytes; if unknown, the stream is spooled to
+ *               a temporary file first, since the session needs the total
+ * @param conflictBehavior - "fail" to keep an existing file (Graph answers 409)
+ *                           instead of replacing it
+ * @returns The webUrl of the uploaded file
+ */
+export async function uploadLargeFileToSharePoint(
+  accessToken: string,
+  siteId: string,
+  folderPath: string,
+  fileName: string,
+  content: ReadableStream<Uint8Array>,
+  size: number | null,
+  conflictBehavior: ConflictBehavior = 'replace'
+): Promise<string> {
+  const cleanFolder = folderPath.replace(/^\/+|\/+$/g, '');
+  const encodedPath = cleanFolder
+    ? `${cleanFolder}/${fileName}`
+    : fileName;
+
+  let source: AsyncIterable<Uint8Array> = streamChunks(content);
+  let totalSize = size;
+  let spoolDir: string | null = null;
+
+  try {
+    if (totalSize === null) {
+      spoolDir = await mkdtemp(join(tmpdir(), 'transcripts-upload-'));
+      const spoolFile = join(spoolDir, fileName.replace(/[\\/]/g, '_'));
+      await pipeline(Readable.from(source), createWriteStream(spoolFile));
+      totalSize = (await stat(spoolFile)).size;
+      source = createReadStream(spoolFile);
+      console.log(`[graph] Spooled ${fileName} of unknown size to disk (${totalSize} bytes)`);
+    }
+    if (totalSize === 0) {
+      throw new Error(`Cannot upload ${fileName}: the recording is empty (0 bytes)`);
+    }
+
+    const sessionUrl = `${GRAPH_BASE}/sites/${siteId}/drive/root:/${encodedPath}:/createUploadSession`;
+    console.log(`[graph] Creating upload session: ${encodedPath} (${totalSize} bytes)`);
+
+    const sessionRes = await graphFetch(sessionUrl, accessToken, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ item: { '@microsoft.graph.conflictBehavior': conflictBehavior } }),
+    });
+    const { uploadUrl } = (await sessionRes.json()) as { uploadUrl: string };
+
+    let offset = 0;
+    let item: { webUrl: string; name: string; size: number } | null = null;
+
+    for await (const chunk of fixedSizeChunks(source, UPLOAD_CHUNK_SIZE)) {
+      const end = offset + chunk.byteLength - 1;
+      // The upload URL is pre-authenticated — no Authorization header
+      let res: Response;
+      try {
+        res = await graphFetch(uploadUrl, null, {
+          method: 'PUT',
+          headers: { 'Content-Range': `bytes ${offset}-${end}/${totalSize}` },
+          body: chunk,
+          timeoutMs: UPLOAD_CHUNK_TIMEOUT_MS,
+        });
+      } catch (err) {
+        await fetch(uploadUrl, { method: 'DELETE' }).catch(() => undefined);
+        throw err;
+      }
+      offset = end + 1;
+      await reportProgress(
+        `Uploaded ${Math.round(offset / 1048576)} of ${Math.round(totalSize / 1048576)} MB of ${fileName}`
+      );
+
+      // 200/201 carries the finished driveItem; 202 means "send the next range"
+      if (res.status === 200 || res.status === 201) {
+        item = (await res.json()) as { webUrl: string; name: string; size: number };
+      } else {
+        await res.body?.cancel();
+      }
+    }
+
+    if (!item) {
+      throw new Error(`SharePoint upload of ${fileName} ended without a completed file`);
+    }
+
+    console.log(`[graph] Upload complete: ${item.name} (${item.size} bytes) → ${item.webUrl}`);
+    return item.webUrl;
+  } finally {
+    if (spoolDir) await rm(spoolDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Iterate the chunks of a web ReadableStream as they arrive.
+ */
+async function* streamChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const next = await reader.read();
+      if (next.done) return;
+      yield next.value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Regroup a byte stream into slices of exactly `chunkSize` bytes (the
+ * last one may be shorter), holding at most one slice in memory.
+ */
+async function* fixedSizeChunks(source: AsyncIterable<Uint8Array>, chunkSize: number): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array(chunkSize);
+  let filled = 0;
+  for await (const part of source) {
+    let pos = 0;
+    while (pos < part.byteLength) {
+      const n = Math.min(chunkSize - filled, part.byteLength - pos);
+      buffer.set(part.subarray(pos, pos + n), filled);
+      filled += n;
+      pos += n;
+      if (filled === chunkSize) {
+        yield buffer;
+        buffer = new Uint8Array(chunkSize);
+        filled = 0;
+      }
+    }
+  }
+  if (filled > 0) yield buffer.subarray(0, filled);
+}
+
+// ── Change Notifications ────────────────────────────────────────────
+
+/**
+ * Graph resource path for transcript or recording change notifications:
+ * a single meeting's collection, or every meeting the current target
+ * user organises (getAllTranscripts / getAllRecordings).
+ */
+export function notificationResource(
+  kind: 'transcripts' | 'recordings',
+  userId: string,
+  meetingId?: string
+): string {
+  if (meetingId) {
+    return `communications/onlineMeetings/${meetingId}/${kind}`;
+  }
+  const all = kind === 'transcripts' ? 'getAllTranscripts' : 'getAllRecordings';
+  return `users/${userId}/onlineMeetings/${all}`;
+}
+
+/**
+ * Create a change-notification subscription. Graph calls notificationUrl
+ * with a validationToken before this returns, so the endpoint must
+ * already be reachable.
+ */
+export async function createSubscription(
+  accessToken: string,
+  options: {
+    resource: string;
+    notificationUrl: string;
+    lifecycleNotificationUrl: string;
+    clientState: string;
+    expirationDateTime: string;
+  }
+): Promise<GraphSubscription> {
+  const res = await graphFetch(`${GRAPH_BASE}/subscriptions`, accessToken, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ changeType: 'created', ...options }),
+  });
+  return (await res.json()) as GraphSubscription;
+}
+
+/**
+ * Extend a subscription's expiry. Also reauthorizes it after a
+ * reauthorizationRequired lifecycle notification.
+ */
+export async function renewSubscription(
+  accessToken: string,
+  subscriptionId: string,
+  expirationDateTime: string
+): Promise<GraphSubscription> {
+  const res = await graphFetch(`${GRAPH_BASE}/subscriptions/${subscriptionId}`, accessToken, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expirationDateTime }),
+  });
+  return (await res.json()) as GraphSubscription;
+}
+
+/**
+ * Delete a subscription. A subscription Graph no longer knows about
+ * counts as deleted.
+ */
+export async function deleteSubscription(accessToken: string, subscriptionId: string): Promise<void> {
+  try {
+    await graphFetch(`${GRAPH_BASE}/subscriptions/${subscriptionId}`, accessToken, { method: 'DELETE' });
+  } catch (err) {
+    if (!(err instanceof GraphError && err.status === 404)) throw err;
+  }
+}
+
 // ── Meeting Search ──────────────────────────────────────────────────
 
+/**
+ * Find meetings whose subject matches a search term (case-insensitive).
+ *
+ * Optimised flow: fetches calendar events, filters by name FIRST (cheap),
+ * then resolves only the matching events to online meetings (expensive).
+ * This avoids calling resolveOnlineMeeting for irrelevant events.
+ */
 export async function findMeetingsByName(
   accessToken: string,
   meetingName: string,
-  meetingDate?: string
+  range?: DateRangeOptions
 ): Promise<OnlineMeeting[]> {
-  const { startDT, endDT } = buildDateRange(meetingDate);
+  const { startDT, endDT } = buildDateRange(range);
 
-  // Fetch a broad set of calendar events
-  const events = await fetchCalendarEvents(accessToken, startDT, endDT, 100);
+  // Fetch every calendar event in the range (bounded by GRAPH_MAX_ITEMS)
+  await reportProgress(`Searching calendar for "${meetingName}"`);
+  const events = await fetchCalendarEvents(accessToken, startDT, endDT, GRAPH_MAX_ITEMS);
 
   // Filter by subject name first (before expensive onlineMeeting resolution)
   const needle = meetingName.toLowerCase();
@@ -358,14 +1027,39 @@ export async function findMeetingsByName(
   }
 
   // Resolve only the matching events
-  const resolved: OnlineMeeting[] = [];
-  for (const event of nameMatches) {
-    const meeting = await resolveCalendarEvent(accessToken, event);
-    if (meeting) {
-      resolved.push(meeting);
-    }
-  }
+  await reportProgress(`Resolving ${nameMatches.length} matching calendar events`);
+  const resolved = (await resolveCalendarEvents(accessToken, nameMatches))
+    .filter((m): m is OnlineMeeting => m !== null);
 
   console.log(`[graph] findMeetingsByName resolved ${resolved.length} meetings`);
-  return resolved;
+  return rankMeetings(resolved, needle);
+}
+
+/**
+ * Order name matches from most to least likely intended meeting:
+ *   1. Exact subject match, then prefix match, then substring match
+ *   2. Meetings that have already started (most recent first) before
+ *      future meetings (soonest first), since only past meetings can
+ *      have transcripts
+ */
+function rankMeetings(meetings: OnlineMeeting[], needle: string): OnlineMeeting[] {
+  const now = Date.now();
+  const matchScore = (m: OnlineMeeting) => {
+    const subject = (m.subject || '').toLowerCase();
+    if (subject === needle) return 0;
+    if (subject.startsWith(needle)) return 1;
+    return 2;
+  };
+
+  return [...meetings].sort((a, b) => {
+    const byMatch = matchScore(a) - matchScore(b);
+    if (byMatch !== 0) return byMatch;
+
+    const aStart = Date.parse(a.startDateTime);
+    const bStart = Date.parse(b.startDateTime);
+    const aPast = aStart <= now;
+    const bPast = bStart <= now;
+    if (aPast !== bPast) return aPast ? -1 : 1;
+    return aPast ? bStart - aStart : aStart - bStart;
+  });
 }
@@ -0,0 +1,2652 @@
+/**
+ * MCP Tools and Resources
+ *
+ * Tool and resource definitions, their handlers, and the factory that
+ * wires them into an MCP Server. Shared by both entry points:
+ *   - server.ts: Streamable HTTP for Copilot Studio (OBO or app mode)
+ *   - stdio.ts:  stdio for desktop MCP clients (device-code sign-in)
+ *
+ * Tools exposed:
+ *   - list_recent_meetings   -> Discovery of meetings with transcript availability
+ *   - get_meeting_transcript -> Full multi-hop retrieval + VTT cleaning
+ *   - save_transcript        -> Retrieval + upload to SharePoint
+ *   - save_transcripts_bulk  -> Archive of a date range's transcripts to SharePoint
+ *   - get_meeting_recording  -> Recording metadata + optional SharePoint archive
+ *   - get_adhoc_transcript   -> Calendar-less discovery (ad-hoc calls, Meet now)
+ *   - search_transcripts     -> Keyword/phrase search across many meetings' transcripts
+ *   - get_meeting_stats      -> Per-speaker talk time, turns and interruptions
+ *   - subscribe_to_transcripts, list_subscriptions, delete_subscription,
+ *     get_notification_log   -> Graph change notifications (webhooks.ts; HTTP only)
+ *
+ * Resources exposed:
+ *   - meetings://recent, meetings://profile
+ *   - meetings://{id}/details, meetings://{id}/transcript[/timestamped]
+ *   - meetings://{id}/recording
+ */
+
+import { createHash } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  DateRangeOptions,
+  OnlineMeeting,
+  TranscriptInfo,
+  listMeetings,
+  getMeetingById,
+  getProfile,
+  resolveOnlineMeeting,
+  listTranscripts,
+  checkTranscriptAvailability,
+  getTranscriptContent,
+  findMeetingsByName,
+  listAllTranscripts,
+  getTranscriptContentByUrl,
+  listRecordings,
+  downloadRecording,
+  resolveSiteId,
+  listSharePointFiles,
+  downloadFromSharePoint,
+  uploadToSharePoint,
+  uploadLargeFileToSharePoint,
+  withGraphUser,
+} from './graph';
+import { GraphError, withGraphSignal } from './graph-client';
+import { describeSearchQuery, parseSearchQuery, searchCues, TranscriptHit } from './transcript-search';
+import { computeMeetingStats, MeetingStats, mergeMeetingStats } from './meeting-stats';
+import { reportProgress, withProgress } from './progress';
+import { availableDetectors, REDACTION_MODES, RedactionMode, Redactor } from './redaction';
+import { SpeakerMapper } from './speakers';
+import { EXPORT_FORMATS, ExportedFile, ExportFormat, formatDialogue, formatTranscriptFile } from './transcript-formats';
+import {
+  CleaningOptions,
+  FILLER_LANGUAGES,
+  VttCue,
+  cleanVttTranscript,
+  timestampVttTranscript,
+  formatCleanCues,
+  formatTimestampedCues,
+  formatTimestamp,
+  parseTimestamp,
+  parseVtt,
+  selectTimeWindow,
+} from './vtt-parser';
+import {
+  formatDateTime,
+  isDateOnly,
+  isValidTimeZone,
+  zonedDayStart,
+  zonedDayEnd,
+} from './timezone';
+import {
+  getNotificationLog,
+  listSubscriptions,
+  NotificationKind,
+  subscribe,
+  SubscriptionOwner,
+  unsubscribe,
+} from './webhooks';
+
+// -- Tool Definitions -------------------------------------------------------
+
+/** Rough characters-per-token ratio used to turn maxTokens into maxChars */
+const CHARS_PER_TOKEN = 4;
+
+/** Meetings scanned by search_transcripts when no meetingIds are given */
+const SEARCH_DEFAULT_MEETINGS = 20;
+const SEARCH_MAX_MEETINGS = 50;
+
+/** Meetings archived by save_transcripts_bulk in one call */
+const BULK_DEFAULT_MEETINGS = 50;
+const BULK_MAX_MEETINGS = 100;
+
+/** Meetings in the range checked for transcripts before maxMeetings is applied */
+const BULK_SCAN_MEETINGS = 500;
+
+/** Index of the files saved by save_transcripts_bulk, kept in the target folder */
+const BULK_MANIFEST_FILE = '_manifest.json';
+
+/** Smallest part size, so a tiny budget cannot turn into hundreds of calls */
+const MIN_PART_CHARS = 500;
+
+const DATE_RANGE_PROPERTIES = {
+  startDate: {
+    type: 'string',
+    description: 'Start of a date range to search (YYYY-MM-DD, inclusive). Defaults to 30 days ago.',
+  },
+  endDate: {
+    type: 'string',
+    description: 'End of a date range to search (YYYY-MM-DD, inclusive). Defaults to 7 days ahead.',
+  },
+  timeZone: {
+    type: 'string',
+    description: 'IANA time zone (e.g. "Australia/Sydney", "America/Los_Angeles") used for day boundaries ' +
+      'and for displaying times. Defaults to UTC.',
+  },
+};
+
+const CLEANING_PROPERTIES = {
+  removeFillers: {
+    type: 'boolean',
+    description: 'Remove filler words ("um", "uh", ", you know,") and stutters ("I I think"). Default false.',
+  },
+  language: {
+    type: 'string',
+    enum: FILLER_LANGUAGES,
+    description: 'Language of the filler word list used by removeFillers. Default "en".',
+  },
+  paragraphGapSeconds: {
+    type: 'number',
+    description: 'Start a new paragraph when a speaker pauses for longer than this many seconds. ' +
+      'By default a speaker\'s consecutive lines are always merged.',
+  },
+  maxParagraphChars: {
+    type: 'number',
+    description: 'Split long monologues: once a paragraph reaches this many characters, a new one starts ' +
+      'at the next sentence end.',
+  },
+  separateUnattributed: {
+    type: 'boolean',
+    description: 'Keep lines without a speaker (e.g. captions of shared audio) on their own line instead of ' +
+      'appending them to the previous speaker. Default false.',
+  },
+};
+
+const SPEAKER_PROPERTIES = {
+  anonymise: {
+    type: 'boolean',
+    description: 'Replace speaker names with stable pseudonyms ("Participant 1", "Participant 2", ... in order of ' +
+      'first appearance), in the speaker labels and where speakers are mentioned in the text. ' +
+      'Speakers with an alias in speakerAliases keep their alias (e.g. "Interviewer").',
+  },
+  speakerAliases: {
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'Map of speaker display names to the name to show instead, e.g. ' +
+      '{"Smith, John": "John Smith", "Jane Doe": "Interviewer"}. Names match regardless of case, ' +
+      '"Last, First" order or a trailing "(Organisation)", so variants of one person are merged.',
+  },
+};
+
+const REDACTION_PROPERTIES = {
+  redact: {
+    type: 'string',
+    enum: REDACTION_MODES,
+    description: 'Redact personal data (emails, phone numbers, IBANs, card numbers, IP addresses and any ' +
+      'configured patterns or terms) from the transcript text, speaker names and meeting subject: "mask" replaces characters with *, ' +
+      '"hash" with a stable token such as [EMAIL:1a2b3c4d] so repeated values can still be matched, ' +
+      '"tag" with the type such as [PHONE]. Omit for no redaction.',
+  },
+  redactTypes: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only redact these detector types (e.g. ["email", "phone"]). Defaults to all of them; ' +
+      'an empty list uses only the configured patterns and terms.',
+  },
+};
+
+
+const TOOLS = [
+  {
+    name: 'list_recent_meetings',
+    description:
+      'List recent Microsoft Teams online meetings for the signed-in user. ' +
+      'Optionally filter by date (ISO format: YYYY-MM-DD) or a startDate/endDate range, and limit results. ' +
+      'Pass timeZone so day boundaries and displayed times match the user\'s local time. ' +
+      'Returns meeting subject, start/end times, and whether transcripts are available.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        date: {
+          type: 'string',
+          description: 'Filter meetings to this date (YYYY-MM-DD). If omitted, returns recent meetings across all dates.',
+        },
+        ...DATE_RANGE_PROPERTIES,
+        limit: {
+          type: 'number',
+          description: 'Maximum number of meetings to return (default: 10, max: 50).',
+        },
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'get_meeting_transcript',
+    description:
+      'Retrieve the cleaned transcript for a Microsoft Teams meeting. ' +
+      'Identifies the meeting by meetingId or joinWebUrl, or searches by name (subject) and optionally by date. ' +
+      'If several meetings match the name, a ranked list of candidates with their meeting IDs is returned instead; ' +
+      'call again with the chosen meetingId. The tool then downloads ' +
+      'and pre-processes the VTT transcript, stripping all VTT metadata. ' +
+      'Returns plain-text speaker-attributed dialogue ready for AI analysis. ' +
+      'Use mode "timestamped" to keep a [hh:mm:ss] timestamp on every speaker turn. ' +
+      'If the meeting has several transcripts (e.g. transcription was restarted), all of them are ' +
+      'returned in chronological order unless transcriptId or transcriptCreated selects one. ' +
+      'For long meetings, set maxChars (or maxTokens) to get the transcript in parts split on speaker turns; ' +
+      'each part ends with a cursor to pass back for the next one. ' +
+      'windowStart/windowEnd return only part of the meeting, e.g. minutes 30 to 45.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        meetingName: {
+          type: 'string',
+          description: 'The name (subject) of the meeting to search for. Partial matches are supported. ' +
+            'Required unless meetingId or joinWebUrl is given.',
+        },
+        meetingId: {
+          type: 'string',
+          description: 'Exact online meeting ID (as returned by list_recent_meetings). Skips the calendar search.',
+        },
+        joinWebUrl: {
+          type: 'string',
+          description: 'Teams join link of the meeting. Skips the calendar search.',
+        },
+        meetingDate: {
+          type: 'string',
+          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow results.',
+        },
+        ...DATE_RANGE_PROPERTIES,
+        transcriptId: {
+          type: 'string',
+          description: 'Return only this transcript (IDs are listed in the output header). If omitted, all transcripts are returned.',
+        },
+        transcriptCreated: {
+          type: 'string',
+          description: 'Return only the transcript created closest to this ISO date/time (e.g. "2026-02-18T15:30:00Z"). ' +
+            'Useful when transcription was stopped and restarted.',
+        },
+        mode: {
+          type: 'string',
+          enum: ['clean', 'timestamped'],
+          description: 'Output mode: "clean" (default) returns plain speaker dialogue; ' +
+            '"timestamped" prefixes each speaker turn with its [hh:mm:ss] offset into the meeting.',
+        },
+        maxChars: {
+          type: 'number',
+          description: 'Return at most this many characters of transcript per call, split on speaker turns. ' +
+            'The response ends with a cursor for the next part. Defaults to the whole transcript.',
+        },
+        maxTokens: {
+          type: 'number',
+          description: 'Like maxChars, as an approximate token budget (about ' + CHARS_PER_TOKEN + ' characters per token).',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Continuation cursor from the previous part. Pass it with the same other arguments.',
+        },
+        windowStart: {
+          type: 'string',
+          description: 'Only return speech from this point of the meeting: minutes (e.g. "30") or a ' +
+            'timestamp ("30:00", "1:05:00"). Offsets count from the start of each transcript.',
+        },
+        windowEnd: {
+          type: 'string',
+          description: 'Only return speech up to this point of the meeting, in the same format as windowStart.',
+        },
+        ...CLEANING_PROPERTIES,
+        ...SPEAKER_PROPERTIES,
+        ...REDACTION_PROPERTIES,
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'save_transcript',
+    description:
+      'Retrieve a meeting transcript and save it to a SharePoint document library. ' +
+      'Identifies the meeting the same way as get_meeting_transcript (meetingId, joinWebUrl or meetingName). ' +
+      'The transcript is cleaned (VTT metadata stripped) and uploaded as a Markdown file ' +
+      'with speaker attribution, ready for RAG indexing, compliance archival, or further processing. ' +
+      'Other formats (plain text, SRT or WebVTT captions, JSON, HTML) can be chosen with format. ' +
+      'Also returns the transcript text in the response for immediate use.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        meetingName: {
+          type: 'string',
+          description: 'The name (subject) of the meeting to search for. Partial matches are supported. ' +
+            'Required unless meetingId or joinWebUrl is given.',
+        },
+        meetingId: {
+          type: 'string',
+          description: 'Exact online meeting ID (as returned by list_recent_meetings). Skips the calendar search.',
+        },
+        joinWebUrl: {
+          type: 'string',
+          description: 'Teams join link of the meeting. Skips the calendar search.',
+        },
+        meetingDate: {
+          type: 'string',
+          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow results.',
+        },
+        ...DATE_RANGE_PROPERTIES,
+        transcriptId: {
+          type: 'string',
+          description: 'Return only this transcript (IDs are listed in the output header). If omitted, all transcripts are returned.',
+        },
+        transcriptCreated: {
+          type: 'string',
+          description: 'Return only the transcript created closest to this ISO date/time (e.g. "2026-02-18T15:30:00Z"). ' +
+            'Useful when transcription was stopped and restarted.',
+        },
+        siteUrl: {
+          type: 'string',
+          description: 'SharePoint site URL (e.g. "contoso.sharepoint.com/sites/Meetings"). If omitted, uses the server default.',
+        },
+        folderPath: {
+          type: 'string',
+          description: 'Folder path within the document library (e.g. "Meeting Transcripts/2026"). If omitted, uses the server default.',
+        },
+        format: {
+          type: 'string',
+          enum: EXPORT_FORMATS,
+          description: 'File format: "md" (default, Markdown), "txt" (plain text), "srt" or "vtt" (captions with ' +
+            'timings), "json" (meeting metadata plus every cue with speaker and timings, for indexing) or ' +
+            '"html" (a self-contained page).',
+        },
+        ...CLEANING_PROPERTIES,
+        ...SPEAKER_PROPERTIES,
+        ...REDACTION_PROPERTIES,
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'save_transcripts_bulk',
+    description:
+      'Archive the transcripts of every meeting in a date range to a SharePoint document library, ' +
+      'e.g. a team\'s meetings for a month. Meetings can be narrowed by subject pattern and organizer. ' +
+      'Each meeting\'s transcripts are saved as one file named like save_transcript\'s, with the start time added ' +
+      'when that name is taken. The archived files are indexed in ' + BULK_MANIFEST_FILE + ' in the folder; meetings ' +
+      'already archived there in the same format, or already saved by save_transcript, are skipped, so the tool can be re-run safely. ' +
+      'Returns a per-meeting report of what was saved, skipped or failed.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        ...DATE_RANGE_PROPERTIES,
+        subjectPattern: {
+          type: 'string',
+          description: 'Only meetings whose subject contains this text (case-insensitive). ' +
+            '* matches any characters, e.g. "Weekly * sync".',
+        },
+        organizer: {
+          type: 'string',
+          description: 'Only meetings organised by this person (case-insensitive, partial name or email address match).',
+        },
+        maxMeetings: {
+          type: 'number',
+          description: 'Maximum number of meetings with transcripts to archive (default ' + BULK_DEFAULT_MEETINGS +
+            ', max ' + BULK_MAX_MEETINGS + '). Meetings without a transcript do not count. ' +
+            'The most recent meetings are archived first.',
+        },
+        siteUrl: {
+          type: 'string',
+          description: 'SharePoint site URL (e.g. "contoso.sharepoint.com/sites/Meetings"). If omitted, uses the server default.',
+        },
+        folderPath: {
+          type: 'string',
+          description: 'Folder path within the document library (e.g. "Meeting Transcripts/2026"). If omitted, uses the server default.',
+        },
+        format: {
+          type: 'string',
+          enum: EXPORT_FORMATS,
+          description: 'File format, as for save_transcript. Default "md".',
+        },
+        ...CLEANING_PROPERTIES,
+        ...SPEAKER_PROPERTIES,
+        ...REDACTION_PROPERTIES,
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'get_meeting_recording',
+    description:
+      'List the recordings of a Microsoft Teams meeting with their ID, created time, duration and content URL. ' +
+      'Identifies the meeting the same way as get_meeting_transcript (meetingId, joinWebUrl or meetingName). ' +
+      'Set save to true to also copy each recording (MP4) into the SharePoint folder used by save_transcript.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        meetingName: {
+          type: 'string',
+          description: 'The name (subject) of the meeting to search for. Partial matches are supported. ' +
+            'Required unless meetingId or joinWebUrl is given.',
+        },
+        meetingId: {
+          type: 'string',
+          description: 'Exact online meeting ID (as returned by list_recent_meetings). Skips the calendar search.',
+        },
+        joinWebUrl: {
+          type: 'string',
+          description: 'Teams join link of the meeting. Skips the calendar search.',
+        },
+        meetingDate: {
+          type: 'string',
+          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow results.',
+        },
+        ...DATE_RANGE_PROPERTIES,
+        recordingId: {
+          type: 'string',
+          description: 'Return (and save) only this recording. If omitted, all recordings are returned.',
+        },
+        save: {
+          type: 'boolean',
+          description: 'Upload each recording to SharePoint (default: false). Large files are uploaded in chunks.',
+        },
+        siteUrl: {
+          type: 'string',
+          description: 'SharePoint site URL (e.g. "contoso.sharepoint.com/sites/Meetings"). If omitted, uses the server default.',
+        },
+        folderPath: {
+          type: 'string',
+          description: 'Folder path within the document library (e.g. "Meeting Transcripts/2026"). If omitted, uses the server default.',
+        },
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'get_adhoc_transcript',
+    description:
+      'Find and retrieve transcripts that have no calendar event: ad-hoc Teams calls, "Meet now" sessions ' +
+      'and meetings joined without an invite. Enumerates all of the user\'s transcripts in a date range ' +
+      '(default: the last 7 days). If exactly one is found, or transcriptId is given, returns the cleaned ' +
+      'transcript; otherwise returns the list of transcripts with their IDs.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        startDate: {
+          type: 'string',
+          description: 'Start of the search range (YYYY-MM-DD). Defaults to 7 days ago.',
+        },
+        endDate: {
+          type: 'string',
+          description: 'End of the search range, inclusive (YYYY-MM-DD). Defaults to today.',
+        },
+        timeZone: DATE_RANGE_PROPERTIES.timeZone,
+        transcriptId: {
+          type: 'string',
+          description: 'ID of the transcript to return, as listed by a previous call with the same date range.',
+        },
+        mode: {
+          type: 'string',
+          enum: ['clean', 'timestamped'],
+          description: 'Output mode: "clean" (default) returns plain speaker dialogue; ' +
+            '"timestamped" prefixes each speaker turn with its [hh:mm:ss] offset into the call.',
+        },
+        ...CLEANING_PROPERTIES,
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'search_transcripts',
+    description:
+      'Search the transcripts of many meetings for keywords and phrases, e.g. to find the meeting where a topic ' +
+      'was discussed. Scans the meetings in a date range (default: the last 30 days), or the meetings given in ' +
+      'meetingIds. Put phrases in double quotes ("pricing change"); a trailing * matches word prefixes (discount*). ' +
+      'Returns ranked hits with the meeting subject, date, speaker, [hh:mm:ss] timestamp and a snippet. ' +
+      'To read around a hit, call get_meeting_transcript with its meetingId and windowStart.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words and "quoted phrases" to search for. By default a turn matches if it contains any of them; ' +
+            'turns containing more of them rank higher.',
+        },
+        matchAll: {
+          type: 'boolean',
+          description: 'Only return speaker turns that contain every word and phrase. Default false.',
+        },
+        speaker: {
+          type: 'string',
+          description: 'Only search what this speaker said (case-insensitive, partial name match).',
+        },
+        meetingIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Online meeting IDs to search (as returned by list_recent_meetings). Overrides the date range.',
+        },
+        ...DATE_RANGE_PROPERTIES,
+        maxMeetings: {
+          type: 'number',
+          description: 'Maximum number of meetings in the date range to scan (default ' + SEARCH_DEFAULT_MEETINGS +
+            ', max ' + SEARCH_MAX_MEETINGS + ').',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of hits to return (default 20, max 100).',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_meeting_stats',
+    description:
+      'Participation statistics for a Microsoft Teams meeting, computed from its transcript: per speaker talk time, ' +
+      'share of the talk time, turns, words, longest monologue and interruptions (talking over someone). ' +
+      'Identifies the meeting the same way as get_meeting_transcript (meetingId, joinWebUrl or meetingName). ' +
+      'Returns a readable table followed by the same figures as JSON.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        meetingName: {
+          type: 'string',
+          description: 'The name (subject) of the meeting to search for. Partial matches are supported. ' +
+            'Required unless meetingId or joinWebUrl is given.',
+        },
+        meetingId: {
+          type: 'string',
+          description: 'Exact online meeting ID (as returned by list_recent_meetings). Skips the calendar search.',
+        },
+        joinWebUrl: {
+          type: 'string',
+          description: 'Teams join link of the meeting. Skips the calendar search.',
+        },
+        meetingDate: {
+          type: 'string',
+          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow results.',
+        },
+        ...DATE_RANGE_PROPERTIES,
+        transcriptId: {
+          type: 'string',
+          description: 'Use only this transcript. If omitted, all transcripts of the meeting are combined.',
+        },
+        transcriptCreated: {
+          type: 'string',
+          description: 'Use only the transcript created closest to this ISO date/time.',
+        },
+        ...SPEAKER_PROPERTIES,
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'subscribe_to_transcripts',
+    description:
+      'Subscribe to Microsoft Graph change notifications for new transcripts or recordings, either for one meeting ' +
+      '(meetingId, joinWebUrl or meetingName) or for every meeting the user organises. ' +
+      'With autoSave, each new transcript is saved to SharePoint as save_transcript would, ' +
+      'and each new recording is archived. Subscriptions are renewed automatically.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        resourceType: {
+          type: 'string',
+          enum: ['transcripts', 'recordings', 'both'],
+          description: 'What to be notified about (default: "transcripts").',
+        },
+        meetingName: {
+          type: 'string',
+          description: 'Only watch the meeting with this name (subject). Omit all meeting arguments to watch every meeting.',
+        },
+        meetingId: {
+          type: 'string',
+          description: 'Only watch this online meeting ID.',
+        },
+        joinWebUrl: {
+          type: 'string',
+          description: 'Only watch the meeting with this Teams join link.',
+        },
+        meetingDate: {
+          type: 'string',
+          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow a meetingName search.',
+        },
+        autoSave: {
+          type: 'boolean',
+          description: 'Save each new transcript (and archive each new recording) to SharePoint automatically (default: false).',
+        },
+        siteUrl: {
+          type: 'string',
+          description: 'SharePoint site URL for autoSave. If omitted, uses the server default.',
+        },
+        folderPath: {
+          type: 'string',
+          description: 'Folder path for autoSave. If omitted, uses the server default.',
+        },
+      },
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'list_subscriptions',
+    description:
+      'List your transcript and recording notification subscriptions with their status, expiry and autoSave settings.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {},
+      required: [] as string[],
+    },
+  },
+  {
+    name: 'delete_subscription',
+    description: 'Delete one of your notification subscriptions (IDs are shown by list_subscriptions).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        subscriptionId: {
+          type: 'string',
+          description: 'ID of the subscription to delete.',
+        },
+      },
+      required: ['subscriptionId'],
+    },
+  },
+  {
+    name: 'get_notification_log',
+    description:
+      'Show recent change notifications received for your subscriptions, most recent first, ' +
+      'including whether each new transcript or recording was auto-saved.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        subscriptionId: {
+          type: 'string',
+          description: 'Only show notifications for this subscription.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries to return (default: 20, max: 100).',
+        },
+      },
+      required: [] as string[],
+    },
+  },
+];
+
+/** Tools that need the webhook endpoints, which only the HTTP server has */
+const SUBSCRIPTION_TOOLS = ['subscribe_to_transcripts', 'list_subscriptions', 'delete_subscription', 'get_notification_log'];
+
+/**
+ * In application-permission mode there is no signed-in user to act as,
+ * so every tool requires the user whose meetings to read.
+ */
+const APP_MODE_TOOLS = TOOLS.map((tool) => ({
+  ...tool,
+  description: tool.description +
+    ' Application-permission mode: pass userId to choose whose meetings to read.',
+  inputSchema: {
+    ...tool.inputSchema,
+    properties: {
+      userId: {
+        type: 'string',
+        description: 'Object ID or user principal name (UPN) of the user whose meetings to read.',
+      },
+      ...tool.inputSchema.properties,
+    },
+    required: ['userId', ...tool.inputSchema.required],
+  },
+}));
+
+// -- Resource Definitions ---------------------------------------------------
+
+const RESOURCES = [
+  {
+    uri: 'meetings://recent',
+    name: 'Recent meetings',
+    description: 'The signed-in user\'s recent Teams meetings (30 days back, 7 days forward) with meeting IDs and transcript availability.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uri: 'meetings://profile',
+    name: 'User profile',
+    description: 'Profile of the signed-in user whose meetings this server exposes.',
+    mimeType: 'application/json',
+  },
+];
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'meetings://{id}/details',
+    name: 'Meeting details',
+    description: 'Online meeting metadata (subject, start/end, join link) plus the list of transcripts. ' +
+      'Use the Meeting ID from meetings://recent, URL-encoded.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'meetings://{id}/transcript',
+    name: 'Meeting transcript',
+    description: 'Cleaned, speaker-attributed transcript of the meeting.',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'meetings://{id}/transcript/timestamped',
+    name: 'Timestamped meeting transcript',
+    description: 'Speaker-attributed transcript with a [hh:mm:ss] timestamp on every speaker turn.',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'meetings://{id}/recording',
+    name: 'Meeting recordings',
+    description: 'Recording metadata for the meeting: ID, created time, duration and content URL.',
+    mimeType: 'text/plain',
+  },
+];
+
+// -- Transcript Selection ----------------------------------------------------
+
+/**
+ * Pick the transcripts a tool call asked for, oldest first.
+ * Returns an error message string if the selector matches nothing.
+ */
+function selectTranscripts(
+  transcripts: TranscriptInfo[],
+  args: Record<string, unknown>
+): TranscriptInfo[] | string {
+  const sorted = [...transcripts].sort(
+    (a, b) => Date.parse(a.createdDateTime) - Date.parse(b.createdDateTime)
+  );
+  const transcriptId = args.transcriptId as string | undefined;
+  const transcriptCreated = args.transcriptCreated as string | undefined;
+
+  if (transcriptId) {
+    const match = sorted.find((t) => t.id === transcriptId);
+    return match
+      ? [match]
+      : 'Transcript "' + transcriptId + '" not found. Available transcripts:\n' + describeTranscripts(sorted);
+  }
+
+  if (transcriptCreated) {
+    const target = Date.parse(transcriptCreated);
+    if (isNaN(target)) {
+      return 'transcriptCreated must be an ISO date or date-time (e.g. "2026-02-18T15:30:00Z").';
+    }
+    const closest = sorted.reduce((best, t) =>
+      Math.abs(Date.parse(t.createdDateTime) - target) < Math.abs(Date.parse(best.createdDateTime) - target)
+        ? t
+        : best
+    );
+    return [closest];
+  }
+
+  return sorted;
+}
+
+function describeTranscripts(transcripts: TranscriptInfo[], timeZone?: string): string {
+  return transcripts
+    .map((t, i) => '  ' + (i + 1) + '. ' + t.id + ' (created ' + formatDateTime(t.createdDateTime, timeZone) + ')')
+    .join('\n');
+}
+
+/**
+ * Header lines identifying the transcript(s) included in a response.
+ */
+function transcriptHeader(selected: TranscriptInfo[], timeZone?: string): string {
+  if (selected.length === 1) {
+    return 'Transcript ID: ' + selected[0].id + '\n' +
+      'Transcript created: ' + formatDateTime(selected[0].createdDateTime, timeZone) + '\n';
+  }
+  return 'Transcripts: ' + selected.length + ' (chronological order)\n' +
+    describeTranscripts(selected, timeZone) + '\n';
+}
+
+/**
+ * Download and parse each selected transcript, keeping only the cues
+ * that overlap the time window when one is given.
+ */
+async function loadTranscriptCues(
+  graphToken: string,
+  meetingId: string,
+  selected: TranscriptInfo[],
+  window?: TimeWindow
+): Promise<Array<{ transcript: TranscriptInfo; cues: VttCue[] }>> {
+  const loaded: Array<{ transcript: TranscriptInfo; cues: VttCue[] }> = [];
+  for (const [i, t] of selected.entries()) {
+    await reportProgress('Downloading transcript ' + (i + 1) + ' of ' + selected.length);
+    const rawVtt = await getTranscriptContent(graphToken, meetingId, t.id);
+    let cues = parseVtt(rawVtt);
+    if (window) {
+      cues = selectTimeWindow(cues, window.fromSeconds, window.toSeconds);
+    }
+    loaded.push({ transcript: t, cues });
+  }
+  return loaded;
+}
+
+/**
+ * Download and render each selected transcript. Multiple transcripts are
+ * stitched together in order, each under its own section header. With a
+ * time window, only cues overlapping it are rendered.
+ */
+async function renderTranscripts(
+  graphToken: string,
+  meetingId: string,
+  selected: TranscriptInfo[],
+  render: (cues: VttCue[]) => string,
+  timeZone?: string,
+  window?: TimeWindow
+): Promise<string> {
+  const sections: string[] = [];
+  const loaded = await loadTranscriptCues(graphToken, meetingId, selected, window);
+  for (const [i, { transcript: t, cues }] of loaded.entries()) {
+    const text = cues.length > 0 || !window ? render(cues) : '(No speech in this time window.)';
+    sections.push(
+      selected.length === 1
+        ? text
+        : '## Transcript ' + (i + 1) + ' of ' + selected.length +
+          ' (created ' + formatDateTime(t.createdDateTime, timeZone) + ')\n\n' + text
+    );
+  }
+  return sections.join('\n\n');
+}
+
+// -- Transcript Paging -------------------------------------------------------
+
+interface TimeWindow {
+  fromSeconds?: number;
+  toSeconds?: number;
+}
+
+/**
+ * One part of a paged transcript: the text, and the cursor for the next
+ * part (undefined on the last one).
+ */
+interface TranscriptPart {
+  text: string;
+  firstLine: number;
+  lastLine: number;
+  totalLines: number;
+  nextCursor?: string;
+}
+
+/**
+ * Parse a windowStart/windowEnd offset: plain minutes ("30", 30) or a
+ * timestamp ("30:00", "1:05:00"). Returns null if it is neither.
+ */
+function parseOffset(value: unknown): number | null {
+  if (typeof value === 'number') return value >= 0 ? value * 60 : null;
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed) * 60;
+  if (/^\d+(:\d{1,2}){1,2}(\.\d+)?$/.test(trimmed)) return parseTimestamp(trimmed);
+  return null;
+}
+
+/**
+ * Read the time window arguments. Returns undefined when neither is set,
+ * or an error message.
+ */
+function parseTimeWindow(args: Record<string, unknown>): TimeWindow | undefined | string {
+  if (args.windowStart === undefined && args.windowEnd === undefined) return undefined;
+
+  const window: TimeWindow = {};
+  for (const [name, key] of [['windowStart', 'fromSeconds'], ['windowEnd', 'toSeconds']] as const) {
+    if (args[name] === undefined) continue;
+    const seconds = parseOffset(args[name]);
+    if (seconds === null) {
+      return name + ' must be minutes (e.g. "30") or a timestamp (e.g. "30:00" or "1:05:00").';
+    }
+    window[key] = seconds;
+  }
+  if (window.fromSeconds !== undefined && window.toSeconds !== undefined && window.toSeconds <= window.fromSeconds) {
+    return 'windowEnd must be later than windowStart.';
+  }
+  return window;
+}
+
+function describeTimeWindow(window: TimeWindow): string {
+  return (window.fromSeconds !== undefined ? formatTimestamp(window.fromSeconds) : 'start') + ' to ' +
+    (window.toSeconds !== undefined ? formatTimestamp(window.toSeconds) : 'end');
+}
+
+/**
+ * Part budget in characters from maxChars/maxTokens. Returns undefined
+ * when paging is off, or an error message.
+ */
+function parsePartSize(args: Record<string, unknown>): number | undefined | string {
+  if (args.maxChars !== undefined) {
+    const maxChars = Number(args.maxChars);
+    if (!Number.isFinite(maxChars) || maxChars <= 0) return 'maxChars must be a positive number.';
+    return Math.max(Math.floor(maxChars), MIN_PART_CHARS);
+  }
+  if (args.maxTokens !== undefined) {
+    const maxTokens = Number(args.maxTokens);
+    if (!Number.isFinite(maxTokens) || maxTokens <= 0) return 'maxTokens must be a positive number.';
+    return Math.max(Math.floor(maxTokens * CHARS_PER_TOKEN), MIN_PART_CHARS);
+  }
+  return undefined;
+}
+
+/**
+ * Cut one part out of a rendered transcript. Every line of the rendered
+ * text is a whole speaker turn (or a section header), so parts always
+ * break between turns. A single turn longer than the budget is returned
+ * whole rather than cut mid-sentence.
+ *
+ * The cursor records the next line, the line count and the budget. The
+ * line count detects a cursor from a differently rendered transcript
+ * instead of silently skipping or repeating text; the budget is reused
+ * when the caller does not repeat maxChars.
+ */
+function pageTranscript(text: string, maxChars: number | undefined, cursor?: string): TranscriptPart | string {
+  const lines = text.split('\n');
+
+  let start = 0;
+  let budget = maxChars;
+  if (cursor) {
+    let position: { line?: unknown; lines?: unknown; size?: unknown } | null = null;
+    try {
+      position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      // Reported below
+    }
+    if (!position || typeof position.line !== 'number' || position.lines !== lines.length ||
+        position.line < 0 || position.line >= lines.length) {
+      return 'The cursor does not match this transcript. Call again with the same arguments as the ' +
+        'previous part, or without cursor to start from the beginning.';
+    }
+    start = position.line;
+    budget ??= typeof position.size === 'number' ? position.size : undefined;
+  }
+  const limit = Math.max(budget ?? MIN_PART_CHARS, MIN_PART_CHARS);
+
+  let end = start;
+  let size = 0;
+  while (end < lines.length && (end === start || size + lines[end].length + 1 <= limit)) {
+    size += lines[end].length + 1;
+    end++;
+  }
+
+  return {
+    text: lines.slice(start, end).join('\n').trim(),
+    firstLine: start + 1,
+    lastLine: end,
+    totalLines: lines.length,
+    nextCursor: end < lines.length
+      ? Buffer.from(JSON.stringify({ line: end, lines: lines.length, size: limit })).toString('base64url')
+      : undefined,
+  };
+}
+
+// -- Transcript Cleaning -----------------------------------------------------
+
+/**
+ * Read the cleaning arguments shared by the transcript tools. Without
+ * any of them the options are empty and the output is unchanged.
+ */
+function parseCleaningOptions(args: Record<string, unknown>): CleaningOptions | string {
+  const options: CleaningOptions = {};
+  if (args.removeFillers === true || args.removeFillers === 'true') options.removeFillers = true;
+  if (args.separateUnattributed === true || args.separateUnattributed === 'true') options.separateUnattributed = true;
+
+  if (args.language !== undefined) {
+    const language = String(args.language).toLowerCase();
+    if (!FILLER_LANGUAGES.includes(language)) {
+      return 'language must be one of: ' + FILLER_LANGUAGES.map((l) => '"' + l + '"').join(', ') + '.';
+    }
+    options.language = language;
+  }
+  if (args.paragraphGapSeconds !== undefined) {
+    const gap = Number(args.paragraphGapSeconds);
+    if (!Number.isFinite(gap) || gap <= 0) return 'paragraphGapSeconds must be a positive number.';
+    options.maxGapSeconds = gap;
+  }
+  if (args.maxParagraphChars !== undefined) {
+    const chars = Number(args.maxParagraphChars);
+    if (!Number.isFinite(chars) || chars <= 0) return 'maxParagraphChars must be a positive number.';
+    options.maxParagraphChars = Math.floor(chars);
+  }
+  return options;
+}
+
+// -- Speaker Names & Redaction -----------------------------------------------
+
+/**
+ * Build the speaker mapper for the anonymise and speakerAliases
+ * arguments: null when speakers keep their names, or an error message.
+ */
+function parseSpeakerOptions(args: Record<string, unknown>): SpeakerMapper | null | string {
+  const factory = speakerMapperFactory(args);
+  return typeof factory === 'string' ? factory : factory();
+}
+
+/**
+ * Validate the anonymise and speakerAliases arguments once and return a
+ * function that builds a fresh mapper (or null) for each file, so every
+ * file of a bulk save has its own "Participant N" numbering.
+ */
+function speakerMapperFactory(args: Record<string, unknown>): (() => SpeakerMapper | null) | string {
+  const anonymise = args.anonymise === true || args.anonymise === 'true';
+  const aliases = args.speakerAliases;
+  if (aliases !== undefined && (typeof aliases !== 'object' || aliases === null || Array.isArray(aliases) ||
+      Object.values(aliases).some((name) => typeof name !== 'string'))) {
+    return 'speakerAliases must be an object mapping speaker names to names, e.g. {"Smith, John": "John Smith"}.';
+  }
+  if (!anonymise && (!aliases || Object.keys(aliases).length === 0)) return () => null;
+  return () => new SpeakerMapper({ aliases: aliases as Record<string, string> | undefined, anonymise });
+}
+
+/**
+ * Build the redactor for the redact and redactTypes arguments: null when
+ * redaction is off, or an error message for an unknown mode or type.
+ */
+function parseRedaction(args: Record<string, unknown>): Redactor | null | string {
+  const factory = redactorFactory(args);
+  return typeof factory === 'string' ? factory : factory();
+}
+
+/**
+ * Validate the redact and redactTypes arguments once and return a
+ * function that builds a fresh redactor (or null) for each file, so its
+ * counts cover that file only.
+ */
+function redactorFactory(args: Record<string, unknown>): (() => Redactor | null) | string {
+  if (args.redact === undefined || args.redact === null || args.redact === '') return () => null;
+  const mode = String(args.redact).toLowerCase() as RedactionMode;
+  if (!REDACTION_MODES.includes(mode)) {
+    return 'redact must be one of: ' + REDACTION_MODES.map((m) => '"' + m + '"').join(', ') + '.';
+  }
+
+  let types: string[] | undefined;
+  if (args.redactTypes !== undefined) {
+    if (!Array.isArray(args.redactTypes)) return 'redactTypes must be an array of detector names.';
+    types = args.redactTypes.map((t) => String(t).toLowerCase());
+    const known = availableDetectors().map((d) => d.toLowerCase());
+    const unknown = types.filter((t) => !known.includes(t));
+    if (unknown.length > 0) {
+      return 'Unknown redactTypes: ' + unknown.join(', ') + '. Available: ' + availableDetectors().join(', ') + '.';
+    }
+  }
+
+  return () => new Redactor(mode, types);
+}
+
+/**
+ * The meeting with its subject redacted, for headers and file names.
+ */
+function redactMeeting(meeting: OnlineMeeting, redactor: Redactor | null): OnlineMeeting {
+  return redactor && meeting.subject ? { ...meeting, subject: redactor.redact(meeting.subject) } : meeting;
+}
+
+/**
+ * Apply speaker renaming, then redaction, to the parsed cues of one
+ * transcript, so redaction also sees the pseudonyms rather than names.
+ */
+function processCues(cues: VttCue[], speakers: SpeakerMapper | null, redactor: Redactor | null): VttCue[] {
+  const mapped = speakers ? speakers.mapCues(cues) : cues;
+  return redactor ? redactor.redactCues(mapped) : mapped;
+}
+
+// -- Meeting Resolution ------------------------------------------------------
+
+/**
+ * Read and validate the date filter arguments shared by the meeting tools.
+ * `dateArg` names the single-day argument ("date" or "meetingDate"), if the tool has one.
+ * Returns an error message string if any argument is invalid.
+ */
+function parseDateRange(
+  args: Record<string, unknown>,
+  dateArg?: string
+): DateRangeOptions | string {
+  const range: DateRangeOptions = {
+    filterDate: dateArg ? args[dateArg] as string | undefined : undefined,
+    startDate: args.startDate as string | undefined,
+    endDate: args.endDate as string | undefined,
+    timeZone: args.timeZone as string | undefined,
+  };
+
+  const dates = [[dateArg, range.filterDate], ['startDate', range.startDate], ['endDate', range.endDate]];
+  for (const [name, value] of dates) {
+    if (value && !isDateOnly(value)) {
+      return name + ' must be a date in YYYY-MM-DD format.';
+    }
+  }
+  if (range.startDate && range.endDate && range.startDate > range.endDate) {
+    return 'startDate must be on or before endDate.';
+  }
+  if (range.timeZone && !isValidTimeZone(range.timeZone)) {
+    return 'Unknown timeZone "' + range.timeZone + '". Use an IANA name such as "Europe/London".';
+  }
+  return range;
+}
+
+/**
+ * Human-readable description of a date filter, for "no results" messages.
+ */
+function describeDateRange(range: DateRangeOptions): string {
+  if (range.filterDate) return ' on ' + range.filterDate;
+  if (range.startDate && range.endDate) return ' between ' + range.startDate + ' and ' + range.endDate;
+  if (range.startDate) return ' since ' + range.startDate;
+  if (range.endDate) return ' up to ' + range.endDate;
+  return '';
+}
+
+type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+};
+
+/**
+ * Work out which meeting a transcript tool call refers to.
+ *
+ * An explicit meetingId or joinWebUrl is used directly. Otherwise the
+ * calendar is searched by name; if more than one meeting matches, a
+ * ranked candidate list is returned so the agent can pick one by ID
+ * instead of silently getting the first match.
+ */
+async function resolveTargetMeeting(
+  graphToken: string,
+  args: Record<string, unknown>
+): Promise<OnlineMeeting | ToolResult> {
+  const meetingId = args.meetingId as string | undefined;
+  const joinWebUrl = args.joinWebUrl as string | undefined;
+  const meetingName = args.meetingName as string | undefined;
+
+  const range = parseDateRange(args, 'meetingDate');
+  if (typeof range === 'string') {
+    return { content: [{ type: 'text' as const, text: range }], isError: true };
+  }
+
+  if (meetingId) {
+    await reportProgress('Fetching meeting');
+    return getMeetingById(graphToken, meetingId);
+  }
+
+  if (joinWebUrl) {
+    await reportProgress('Resolving meeting from join link');
+    const meeting = await resolveOnlineMeeting(graphToken, joinWebUrl);
+    if (!meeting) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'No online meeting found for join link ' + joinWebUrl +
+              '. Check the link, or that you are the organiser or an attendee of the meeting.',
+          },
+        ],
+        isError: true,
+      };
+    }
+    return meeting;
+  }
+
+  if (!meetingName) {
+    return {
+      content: [{ type: 'text' as const, text: 'One of meetingName, meetingId or joinWebUrl is required.' }],
+      isError: true,
+    };
+  }
+
+  const meetings = await findMeetingsByName(graphToken, meetingName, range);
+
+  if (meetings.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'No meeting found matching "' + meetingName + '"' +
+            describeDateRange(range) +
+            '. Try broadening your search term or checking the date.',
+        },
+      ],
+    };
+  }
+
+  if (meetings.length > 1) {
+    const candidates = meetings
+      .map(
+        (m, i) =>
+          (i + 1) + '. **' + (m.subject || '(No subject)') + '**\n' +
+          '   Start: ' + formatDateTime(m.startDateTime, range.timeZone) + '\n' +
+          '   End: ' + formatDateTime(m.endDateTime, range.timeZone) + '\n' +
+          '   Meeting ID: ' + m.id
+      )
+      .join('\n\n');
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: meetings.length + ' meetings match "' + meetingName + '"' +
+            describeDateRange(range) +
+            '. Candidates, most likely first:\n\n' + candidates + '\n\n' +
+            'Call the tool again with the meetingId of the intended meeting.',
+        },
+      ],
+    };
+  }
+
+  return meetings[0];
+}
+
+function isToolResult(value: OnlineMeeting | ToolResult): value is ToolResult {
+  return 'content' in value;
+}
+
+/**
+ * Base file name for files saved about a meeting: sanitised subject + date.
+ * The date is the meeting's local calendar day when a time zone is given.
+ */
+function meetingFileBase(meeting: OnlineMeeting, timeZone?: string): string {
+  const meetingDateStr = formatDateTime(meeting.startDateTime, timeZone).substring(0, 10);
+  const safeSubject = (meeting.subject || 'Untitled meeting')
+    .replace(/[^a-zA-Z0-9\s-]/g, '')
+    .replace(/\s+/g, '_')
+    .substring(0, 80);
+  return `${safeSubject}_${meetingDateStr}`;
+}
+
+/**
+ * Base file name for one transcript or recording: sanitised subject plus
+ * the item's creation date and time, e.g. "Standup_2026-02-18_0930".
+ * Occurrences of a recurring meeting share one online meeting (and its
+ * series start date), and a meeting gets a new transcript each time
+ * transcription restarts, so only the item itself tells saves apart.
+ */
+function itemFileBase(meeting: OnlineMeeting, createdDateTime: string, timeZone?: string): string {
+  const time = formatDateTime(createdDateTime, timeZone).substring(11, 16).replace(':', '');
+  return meetingFileBase({ ...meeting, startDateTime: createdDateTime }, timeZone) + '_' + time;
+}
+
+/**
+ * Options for saves made by webhook auto-save rather than by an agent.
+ */
+export interface AutoSaveOptions {
+  /**
+   * Name the file after the notified transcript or recording and never
+   * replace an existing file
+   */
+  autoSave?: boolean;
+}
+
+/**
+ * How save_transcript and save_transcripts_bulk render a meeting's file.
+ */
+interface TranscriptFileOptions {
+  format: ExportFormat;
+  cleaning: CleaningOptions;
+  speakers: SpeakerMapper | null;
+  redactor: Redactor | null;
+  timeZone?: string;
+}
+
+/**
+ * Download the selected transcripts of a meeting and render them as a
+ * file, with the clean dialogue for the tool response.
+ */
+async function buildTranscriptFile(
+  graphToken: string,
+  meeting: OnlineMeeting,
+  selected: TranscriptInfo[],
+  options: TranscriptFileOptions
+): Promise<{ file: ExportedFile; cleanText: string }> {
+  const { speakers, redactor } = options;
+  const loaded = await loadTranscriptCues(graphToken, meeting.id, selected);
+  const doc = {
+    meeting,
+    transcripts: loaded.map(({ transcript: t, cues }) => ({
+      id: t.id,
+      createdDateTime: t.createdDateTime,
+      cues: processCues(cues, speakers, redactor),
+    })),
+    notes: [
+      ...(speakers ? [{ label: 'Speakers', value: speakers.describe() }] : []),
+      ...(redactor ? [{ label: 'Redacted', value: redactor.describe() }] : []),
+    ],
+    timeZone: options.timeZone,
+    cleaning: options.cleaning,
+  };
+  return { file: formatTranscriptFile(options.format, doc), cleanText: formatDialogue(doc) };
+}
+
+// -- Tool Handlers -----------------------------------------------------------
+
+async function handleListRecentMeetings(
+  graphToken: string,
+  args: Record<string, unknown>
+) {
+  const limit = typeof args.limit === 'number' ? args.limit : 10;
+  const top = Math.min(limit, 50);
+
+  const range = parseDateRange(args, 'date');
+  if (typeof range === 'string') {
+    return { content: [{ type: 'text' as const, text: range }], isError: true };
+  }
+
+  const meetings = await listMeetings(graphToken, { ...range, top });
+
+  if (meetings.length === 0) {
+    const where = describeDateRange(range);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: where ? 'No meetings found' + where + '.' : 'No recent meetings found.',
+        },
+      ],
+    };
+  }
+
+  // One batched availability check instead of a listTranscripts call per meeting
+  await reportProgress('Checking transcript availability for ' + meetings.length + ' meetings');
+  const availability = await checkTranscriptAvailability(graphToken, meetings.map((m) => m.id));
+  const results = meetings.map((m) => ({
+    subject: m.subject || '(No subject)',
+    startDateTime: m.startDateTime,
+    endDateTime: m.endDateTime,
+    meetingId: m.id,
+    hasTranscript: availability.get(m.id) ?? false,
+  }));
+
+  const text = results
+    .map(
+      (r, i) =>
+        (i + 1) + '. **' + r.subject + '**\n' +
+        '   Start: ' + formatDateTime(r.startDateTime, range.timeZone) + '\n' +
+        '   End: ' + formatDateTime(r.endDateTime, range.timeZone) + '\n' +
+        '   Transcript: ' + (r.hasTranscript ? 'Available' : 'Not available') + '\n' +
+        '   Meeting ID: ' + r.meetingId
+    )
+    .join('\n\n');
+
+  return { content: [{ type: 'text' as const, text }] };
+}
+
+async function handleGetMeetingTranscript(
+  graphToken: string,
+  args: Record<string, unknown>
+) {
+  const mode = (args.mode as string | undefined) || 'clean';
+
+  if (mode !== 'clean' && mode !== 'timestamped') {
+    return {
+      content: [{ type: 'text' as const, text: 'mode must be "clean" or "timestamped".' }],
+      isError: true,
+    };
+  }
+
+  const window = parseTimeWindow(args);
+  if (typeof window === 'string') {
+    return { content: [{ type: 'text' as const, text: window }], isError: true };
+  }
+  const partSize = parsePartSize(args);
+  if (typeof partSize === 'string') {
+    return { content: [{ type: 'text' as const, text: partSize }], isError: true };
+  }
+  const cursor = typeof args.cursor === 'string' && args.cursor ? args.cursor : undefined;
+  const cleaning = parseCleaningOptions(args);
+  if (typeof cleaning === 'string') {
+    return { content: [{ type: 'text' as const, text: cleaning }], isError: true };
+  }
+  const speakers = parseSpeakerOptions(args);
+  if (typeof speakers === 'string') {
+    return { content: [{ type: 'text' as const, text: speakers }], isError: true };
+  }
+  const redactor = parseRedaction(args);
+  if (typeof redactor === 'string') {
+    return { content: [{ type: 'text' as const, text: redactor }], isError: true };
+  }
+
+  const target = await resolveTargetMeeting(graphToken, args);
+  if (isToolResult(target)) return target;
+  const meeting = redactMeeting(target, redactor);
+  const timeZone = args.timeZone as string | undefined;
+
+  await reportProgress('Listing transcripts');
+  const transcripts = await listTranscripts(graphToken, meeting.id);
+  if (transcripts.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'Meeting "' + meeting.subject + '" was found (' + formatDateTime(meeting.startDateTime, timeZone) +
+            ') but has no transcript available. Ensure transcription was enabled during the meeting.',
+        },
+      ],
+    };
+  }
+
+  const selected = selectTranscripts(transcripts, args);
+  if (typeof selected === 'string') {
+    return { content: [{ type: 'text' as const, text: selected }], isError: true };
+  }
+
+  const format = mode === 'timestamped' ? formatTimestampedCues : formatCleanCues;
+  const cleanText = await renderTranscripts(
+    graphToken, meeting.id, selected,
+    (cues) => format(processCues(cues, speakers, redactor), cleaning),
+    timeZone,
+    window
+  );
+
+  let header = 'Meeting: ' + meeting.subject + '\nDate: ' + formatDateTime(meeting.startDateTime, timeZone) + '\n' +
+    'Meeting link: ' + meeting.joinWebUrl + '\n' +
+    transcriptHeader(selected, timeZone);
+  if (window) {
+    header += 'Time window: ' + describeTimeWindow(window) + '\n';
+  }
+  if (speakers) {
+    header += 'Speakers: ' + speakers.describe() + '\n';
+  }
+  if (redactor) {
+    header += 'Redacted: ' + redactor.describe() + '\n';
+  }
+
+  // Paging is on when a budget is given; a cursor alone continues with the budget it carries
+  if (partSize === undefined && !cursor) {
+    return { content: [{ type: 'text' as const, text: header + '---\n\n' + cleanText }] };
+  }
+
+  const part = pageTranscript(cleanText, partSize, cursor);
+  if (typeof part === 'string') {
+    return { content: [{ type: 'text' as const, text: part }], isError: true };
+  }
+
+  header += 'Part: lines ' + part.firstLine + '-' + part.lastLine + ' of ' + part.totalLines +
+    ' (one speaker turn per line)\n';
+  const footer = part.nextCursor
+    ? '\n\n---\nMore transcript follows. Call get_meeting_transcript again with the same arguments ' +
+      'and cursor "' + part.nextCursor + '" for the next part.'
+    : '\n\n---\nEnd of transcript.';
+
+  return { content: [{ type: 'text' as const, text: header + '---\n\n' + part.text + footer }] };
+}
+
+export async function handleSaveTranscript(
+  graphToken: string,
+  args: Record<string, unknown>,
+  options: AutoSaveOptions = {}
+) {
+  const siteUrl = (args.siteUrl as string) || process.env.SHAREPOINT_SITE_URL || '';
+  const folderPath = (args.folderPath as string) || process.env.SHAREPOINT_FOLDER || 'Meeting Transcripts';
+  const format = ((args.format as string | undefined) || 'md').toLowerCase() as ExportFormat;
+
+  if (!siteUrl) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'No SharePoint site URL provided. Either pass siteUrl or set the SHAREPOINT_SITE_URL environment variable.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'format must be one of: ' + EXPORT_FORMATS.map((f) => '"' + f + '"').join(', ') + '.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const cleaning = parseCleaningOptions(args);
+  if (typeof cleaning === 'string') {
+    return { content: [{ type: 'text' as const, text: cleaning }], isError: true };
+  }
+  const speakers = parseSpeakerOptions(args);
+  if (typeof speakers === 'string') {
+    return { content: [{ type: 'text' as const, text: speakers }], isError: true };
+  }
+  const redactor = parseRedaction(args);
+  if (typeof redactor === 'string') {
+    return { content: [{ type: 'text' as const, text: redactor }], isError: true };
+  }
+
+  // 1. Find the meeting
+  const target = await resolveTargetMeeting(graphToken, args);
+  if (isToolResult(target)) return target;
+  const meeting = redactMeeting(target, redactor);
+  const timeZone = args.timeZone as string | undefined;
+
+  // 2. Get the transcript
+  await reportProgress('Listing transcripts');
+  const transcripts = await listTranscripts(graphToken, meeting.id);
+  if (transcripts.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'Meeting "' + meeting.subject + '" was found but has no transcript available.',
+        },
+      ],
+    };
+  }
+
+  const selected = selectTranscripts(transcripts, args);
+  if (typeof selected === 'string') {
+    return { content: [{ type: 'text' as const, text: selected }], isError: true };
+  }
+
+  // 3. Render the file in the requested format
+  const { file, cleanText } = await buildTranscriptFile(graphToken, meeting, selected, {
+    format,
+    cleaning,
+    speakers,
+    redactor,
+    timeZone,
+  });
+
+  // 4. Generate filename: sanitise subject, add date (auto-saves: the newest transcript's date and time)
+  const fileName = options.autoSave
+    ? `${itemFileBase(meeting, selected[selected.length - 1].createdDateTime, timeZone)}.${file.extension}`
+    : `${meetingFileBase(meeting, timeZone)}.${file.extension}`;
+
+  // 5. Resolve SharePoint site and upload; auto-saves never replace an existing file
+  await reportProgress('Uploading ' + fileName + ' to SharePoint');
+  const siteId = await resolveSiteId(graphToken, siteUrl);
+  let webUrl: string;
+  try {
+    webUrl = await uploadToSharePoint(
+      graphToken, siteId, folderPath, fileName, file.content, file.mimeType, options.autoSave ? 'fail' : 'replace'
+    );
+  } catch (err) {
+    if (!(options.autoSave && err instanceof GraphError && err.status === 409)) throw err;
+    return {
+      content: [{ type: 'text' as const, text: fileName + ' already exists in ' + folderPath + '; it was not replaced.' }],
+      isError: true,
+    };
+  }
+
+  const header = 'Meeting: ' + meeting.subject + '\nDate: ' + formatDateTime(meeting.startDateTime, timeZone) + '\n' +
+    transcriptHeader(selected, timeZone);
+  const summary =
+    '\n---\n\n' +
+    '**Saved to SharePoint:** ' + webUrl + '\n' +
+    '**File:** ' + fileName + '\n' +
+    '**Format:** ' + format + '\n' +
+    '**Folder:** ' + folderPath + '\n' +
+    (speakers ? '**Speakers:** ' + speakers.describe() + '\n' : '') +
+    (redactor ? '**Redacted:** ' + redactor.describe() + '\n' : '') +
+    '\n---\n\n';
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: header + summary + cleanText,
+      },
+    ],
+  };
+}
+
+export async function handleGetMeetingRecording(
+  graphToken: string,
+  args: Record<string, unknown>,
+  options: AutoSaveOptions = {}
+) {
+  const save = args.save === true;
+  const siteUrl = (args.siteUrl as string) || process.env.SHAREPOINT_SITE_URL || '';
+  const folderPath = (args.folderPath as string) || process.env.SHAREPOINT_FOLDER || 'Meeting Transcripts';
+
+  if (save && !siteUrl) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'No SharePoint site URL provided. Either pass siteUrl or set the SHAREPOINT_SITE_URL environment variable.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const target = await resolveTargetMeeting(graphToken, args);
+  if (isToolResult(target)) return target;
+  const meeting = target;
+  const timeZone = args.timeZone as string | undefined;
+
+  await reportProgress('Listing recordings');
+  const recordings = await listRecordings(graphToken, meeting.id);
+  if (recordings.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'Meeting "' + meeting.subject + '" was found (' + formatDateTime(meeting.startDateTime, timeZone) +
+            ') but has no recording available. Ensure the meeting was recorded.',
+        },
+      ],
+    };
+  }
+
+  recordings.sort((a, b) => Date.parse(a.createdDateTime) - Date.parse(b.createdDateTime));
+
+  const recordingId = args.recordingId as string | undefined;
+  if (recordingId) {
+    const match = recordings.find((r) => r.id === recordingId);
+    if (!match) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Recording "' + recordingId + '" not found. Available recordings: ' +
+              recordings.map((r) => r.id).join(', '),
+          },
+        ],
+        isError: true,
+      };
+    }
+    recordings.splice(0, recordings.length, match);
+  }
+
+  const savedUrls: string[] = [];
+  if (save) {
+    const siteId = await resolveSiteId(graphToken, siteUrl);
+    for (const [i, r] of recordings.entries()) {
+      // Auto-saves are named after the recording, so a later recording never renames or replaces an earlier file
+      const fileName = options.autoSave
+        ? itemFileBase(meeting, r.createdDateTime, timeZone) + '_recording.mp4'
+        : meetingFileBase(meeting, timeZone) + (recordings.length > 1 ? '_recording_' + (i + 1) : '_recording') + '.mp4';
+      await reportProgress('Copying recording ' + (i + 1) + ' of ' + recordings.length + ' to SharePoint');
+      const download = await downloadRecording(graphToken, meeting.id, r.id);
+      savedUrls.push(
+        await uploadLargeFileToSharePoint(
+          graphToken, siteId, folderPath, fileName, download.body, download.size,
+          options.autoSave ? 'fail' : 'replace'
+        )
+      );
+    }
+  }
+
+  const list = recordings
+    .map((r, i) => {
+      const durationSeconds = (Date.parse(r.endDateTime) - Date.parse(r.createdDateTime)) / 1000;
+      return (i + 1) + '. Recording ID: ' + r.id + '\n' +
+        '   Created: ' + formatDateTime(r.createdDateTime, timeZone) + '\n' +
+        '   Duration: ' + (isNaN(durationSeconds) ? 'Unknown' : formatTimestamp(durationSeconds)) + '\n' +
+        '   Content URL: ' + r.recordingContentUrl +
+        (save ? '\n   Saved to SharePoint: ' + savedUrls[i] : '');
+    })
+    .join('\n\n');
+
+  const header = 'Meeting: ' + meeting.subject + '\nDate: ' + formatDateTime(meeting.startDateTime, timeZone) + '\n' +
+    'Recordings: ' + recordings.length + '\n' +
+    (save ? 'Folder: ' + folderPath + '\n' : '') +
+    '---\n\n';
+
+  return { content: [{ type: 'text' as const, text: header + list }] };
+}
+
+async function handleGetAdhocTranscript(
+  graphToken: string,
+  args: Record<string, unknown>
+) {
+  const transcriptId = args.transcriptId as string | undefined;
+  const mode = (args.mode as string | undefined) || 'clean';
+
+  if (mode !== 'clean' && mode !== 'timestamped') {
+    return {
+      content: [{ type: 'text' as const, text: 'mode must be "clean" or "timestamped".' }],
+      isError: true,
+    };
+  }
+  const cleaning = parseCleaningOptions(args);
+  if (typeof cleaning === 'string') {
+    return { content: [{ type: 'text' as const, text: cleaning }], isError: true };
+  }
+
+  const range = parseDateRange(args);
+  if (typeof range === 'string') {
+    return { content: [{ type: 'text' as const, text: range }], isError: true };
+  }
+  const timeZone = range.timeZone;
+
+  const since = new Date();
+  since.setDate(since.getDate() - 7);
+  const startDT = range.startDate ? zonedDayStart(range.startDate, timeZone || 'UTC') : since.toISOString();
+  const endDT = range.endDate ? zonedDayEnd(range.endDate, timeZone || 'UTC') : new Date().toISOString();
+  const rangeText = formatDateTime(startDT, timeZone) + ' to ' + formatDateTime(endDT, timeZone);
+
+  await reportProgress('Listing transcripts from calls and meetings');
+  const profile = await getProfile(graphToken);
+  const transcripts = await listAllTranscripts(graphToken, profile.id, startDT, endDT);
+
+  if (transcripts.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'No transcripts found from ' + rangeText +
+            '. Ensure transcription was started during the call, or widen the date range.',
+        },
+      ],
+    };
+  }
+
+  const chosen = transcriptId
+    ? transcripts.find((t) => t.id === transcriptId)
+    : transcripts.length === 1 ? transcripts[0] : undefined;
+
+  if (!chosen) {
+    const list = transcripts
+      .map(
+        (t, i) =>
+          (i + 1) + '. Transcript ID: ' + t.id + '\n' +
+          '   Source: ' + (t.source === 'adhocCall' ? 'Ad-hoc call' : 'Online meeting') + '\n' +
+          '   Created: ' + formatDateTime(t.createdDateTime, timeZone) + '\n' +
+          '   Ended: ' + (t.endDateTime ? formatDateTime(t.endDateTime, timeZone) : 'Unknown') + '\n' +
+          '   ' + (t.callId ? 'Call ID: ' + t.callId : 'Meeting ID: ' + t.meetingId)
+      )
+      .join('\n\n');
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: (transcriptId ? 'Transcript "' + transcriptId + '" not found. ' : '') +
+            transcripts.length + ' transcripts found from ' + rangeText + ', most recent first:\n\n' + list +
+            '\n\nCall the tool again with the transcriptId (and the same date range) to retrieve one.',
+        },
+      ],
+      isError: !!transcriptId,
+    };
+  }
+
+  await reportProgress('Downloading transcript');
+  const rawVtt = await getTranscriptContentByUrl(graphToken, chosen.transcriptContentUrl);
+  const cleanText = mode === 'timestamped'
+    ? timestampVttTranscript(rawVtt, cleaning)
+    : cleanVttTranscript(rawVtt, cleaning);
+
+  const header = 'Source: ' + (chosen.source === 'adhocCall' ? 'Ad-hoc call' : 'Online meeting') + '\n' +
+    (chosen.callId ? 'Call ID: ' + chosen.callId : 'Meeting ID: ' + chosen.meetingId) + '\n' +
+    'Transcript ID: ' + chosen.id + '\n' +
+    'Transcript created: ' + formatDateTime(chosen.createdDateTime, timeZone) + '\n' +
+    '---\n\n';
+
+  return { content: [{ type: 'text' as const, text: header + cleanText }] };
+}
+
+// -- Transcript Search -------------------------------------------------------
+
+async function handleSearchTranscripts(
+  graphToken: string,
+  args: Record<string, unknown>
+) {
+  const query = parseSearchQuery(typeof args.query === 'string' ? args.query : '');
+  if (query.phrases.length === 0 && query.terms.length === 0) {
+    return {
+      content: [{ type: 'text' as const, text: 'query is required: give one or more words or "quoted phrases".' }],
+      isError: true,
+    };
+  }
+
+  const range = parseDateRange(args);
+  if (typeof range === 'string') {
+    return { content: [{ type: 'text' as const, text: range }], isError: true };
+  }
+  const timeZone = range.timeZone;
+  const maxResults = Math.min(typeof args.maxResults === 'number' && args.maxResults > 0 ? args.maxResults : 20, 100);
+
+  // 1. Decide which meetings to scan
+  const skipped: string[] = [];
+  let meetings: OnlineMeeting[];
+  const meetingIds = Array.isArray(args.meetingIds)
+    ? args.meetingIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+
+  if (meetingIds.length > 0) {
+    meetings = [];
+    for (const id of meetingIds.slice(0, SEARCH_MAX_MEETINGS)) {
+      try {
+        meetings.push(await getMeetingById(graphToken, id));
+      } catch (err: any) {
+        if (!(err instanceof GraphError) || err.code === 'RequestCancelled') throw err;
+        skipped.push(id + ' (' + (err.status === 404 ? 'not found' : 'Graph ' + err.status) + ')');
+      }
+    }
+  } else {
+    const top = Math.min(
+      typeof args.maxMeetings === 'number' && args.maxMeetings > 0 ? args.maxMeetings : SEARCH_DEFAULT_MEETINGS,
+      SEARCH_MAX_MEETINGS
+    );
+    const found = await listMeetings(graphToken, { ...range, top });
+    await reportProgress('Checking transcript availability for ' + found.length + ' meetings');
+    const availability = await checkTranscriptAvailability(graphToken, found.map((m) => m.id));
+    meetings = found.filter((m) => availability.get(m.id));
+  }
+
+  // 2. Download and search each meeting's transcripts
+  const hits: Array<TranscriptHit & { meeting: OnlineMeeting; transcriptCount: number; transcriptIndex: number }> = [];
+  let transcriptsSearched = 0;
+
+  for (const [i, meeting] of meetings.entries()) {
+    await reportProgress('Searching meeting ' + (i + 1) + ' of ' + meetings.length + ': ' + (meeting.subject || '(No subject)'));
+    try {
+      const transcripts = (await listTranscripts(graphToken, meeting.id)).sort(
+        (a, b) => Date.parse(a.createdDateTime) - Date.parse(b.createdDateTime)
+      );
+      for (const [t, transcript] of transcripts.entries()) {
+        const cues = parseVtt(await getTranscriptContent(graphToken, meeting.id, transcript.id));
+        transcriptsSearched++;
+        const found = searchCues(cues, query, {
+          speaker: typeof args.speaker === 'string' ? args.speaker : undefined,
+          matchAll: args.matchAll === true,
+        });
+        for (const hit of found) {
+          hits.push({ ...hit, meeting, transcriptCount: transcripts.length, transcriptIndex: t });
+        }
+      }
+    } catch (err: any) {
+      if (!(err instanceof GraphError) || err.code === 'RequestCancelled') throw err;
+      console.warn('[search] Skipping meeting ' + meeting.id + ': ' + err.message);
+      skipped.push((meeting.subject || meeting.id) + ' (Graph ' + err.status + ')');
+    }
+  }
+
+  // 3. Rank: best score first, then the most recent meeting, then meeting order
+  hits.sort((a, b) =>
+    b.score - a.score ||
+    Date.parse(b.meeting.startDateTime) - Date.parse(a.meeting.startDateTime) ||
+    a.transcriptIndex - b.transcriptIndex ||
+    a.startSeconds - b.startSeconds
+  );
+  const shown = hits.slice(0, maxResults);
+
+  let text = 'Search: ' + describeSearchQuery(query) +
+    (typeof args.speaker === 'string' && args.speaker ? ' (speaker: ' + args.speaker + ')' : '') + '\n' +
+    'Scanned ' + meetings.length + ' meeting' + (meetings.length === 1 ? '' : 's') +
+    ' (' + transcriptsSearched + ' transcript' + (transcriptsSearched === 1 ? '' : 's') + ')' +
+    (meetingIds.length === 0 ? describeDateRange(range) || ' from the last 30 days' : '') + '\n' +
+    'Hits: ' + hits.length + (hits.length > shown.length ? ' (showing the top ' + shown.length + ')' : '') + '\n';
+  if (skipped.length > 0) {
+    text += 'Skipped: ' + skipped.join('; ') + '\n';
+  }
+  text += '---\n\n';
+
+  if (shown.length === 0) {
+    text += 'No matches found.';
+    return { content: [{ type: 'text' as const, text }] };
+  }
+
+  text += shown
+    .map(
+      (hit, i) =>
+        (i + 1) + '. **' + (hit.meeting.subject || '(No subject)') + '** (' +
+        formatDateTime(hit.meeting.startDateTime, timeZone) + ')\n' +
+        '   [' + formatTimestamp(hit.startSeconds) + '] ' + (hit.speaker || 'Unknown speaker') +
+        (hit.transcriptCount > 1 ? ' (transcript ' + (hit.transcriptIndex + 1) + ' of ' + hit.transcriptCount + ')' : '') +
+        ' — matched ' + hit.matched.join(', ') + '\n' +
+        '   ' + hit.snippet + '\n' +
+        '   Meeting ID: ' + hit.meeting.id
+    )
+    .join('\n\n');
+
+  return { content: [{ type: 'text' as const, text }] };
+}
+
+// -- Meeting Statistics ------------------------------------------------------
+
+async function handleGetMeetingStats(
+  graphToken: string,
+  args: Record<string, unknown>
+) {
+  const speakers = parseSpeakerOptions(args);
+  if (typeof speakers === 'string') {
+    return { content: [{ type: 'text' as const, text: speakers }], isError: true };
+  }
+
+  const target = await resolveTargetMeeting(graphToken, args);
+  if (isToolResult(target)) return target;
+  const meeting = target;
+  const timeZone = args.timeZone as string | undefined;
+
+  await reportProgress('Listing transcripts');
+  const transcripts = await listTranscripts(graphToken, meeting.id);
+  if (transcripts.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'Meeting "' + meeting.subject + '" was found (' + formatDateTime(meeting.startDateTime, timeZone) +
+            ') but has no transcript, so no statistics can be computed. Ensure transcription was enabled during the meeting.',
+        },
+      ],
+    };
+  }
+
+  const selected = selectTranscripts(transcripts, args);
+  if (typeof selected === 'string') {
+    return { content: [{ type: 'text' as const, text: selected }], isError: true };
+  }
+
+  const parts: MeetingStats[] = [];
+  for (const [i, t] of selected.entries()) {
+    await reportProgress('Downloading transcript ' + (i + 1) + ' of ' + selected.length);
+    const cues = parseVtt(await getTranscriptContent(graphToken, meeting.id, t.id));
+    // Only the labels: renaming mentions in the text would change the word counts
+    parts.push(computeMeetingStats(
+      speakers ? cues.map((c) => ({ ...c, speaker: c.speaker && speakers.mapName(c.speaker) })) : cues
+    ));
+  }
+  const stats = parts.length === 1 ? parts[0] : mergeMeetingStats(parts);
+
+  const percent = (fraction: number) => (fraction * 100).toFixed(1) + '%';
+  const number = (n: number) => n.toLocaleString('en-US');
+
+  let text = 'Meeting: ' + meeting.subject + '\nDate: ' + formatDateTime(meeting.startDateTime, timeZone) + '\n' +
+    transcriptHeader(selected, timeZone) +
+    (speakers ? 'Speakers: ' + speakers.describe() + '\n' : '') +
+    'Transcribed duration: ' + formatTimestamp(stats.durationSeconds) +
+    ' | Talk time: ' + formatTimestamp(stats.talkSeconds) +
+    ' | Speakers: ' + stats.speakers.length +
+    ' | Turns: ' + number(stats.turns) +
+    ' | Words: ' + number(stats.words) + '\n' +
+    '---\n\n';
+
+  text += '| Speaker | Talk time | Share | Turns | Words | Longest monologue | Interrupted others | Was interrupted |\n' +
+    '|---------|-----------|-------|-------|-------|-------------------|--------------------|-----------------|\n' +
+    stats.speakers
+      .map((s) =>
+        '| ' + s.speaker.replace(/\|/g, '\\|') +
+        ' | ' + formatTimestamp(s.talkSeconds) +
+        ' | ' + percent(s.share) +
+        ' | ' + number(s.turns) +
+        ' | ' + number(s.words) +
+        ' | ' + formatTimestamp(s.longestMonologueSeconds) + ' (at ' + formatTimestamp(s.longestMonologueStart) + ')' +
+        ' | ' + s.interruptionsMade +
+        ' | ' + s.interruptionsReceived + ' |'
+      )
+      .join('\n');
+
+  text += '\n\nTalk time comes from transcript cue timings, so it is an estimate. ' +
+    'An interruption is a speaker starting while another speaker\'s cue is still running.';
+
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const json = {
+    meeting: {
+      id: meeting.id,
+      subject: meeting.subject,
+      startDateTime: meeting.startDateTime,
+      endDateTime: meeting.endDateTime,
+      transcriptIds: selected.map((t) => t.id),
+    },
+    durationSeconds: round(stats.durationSeconds),
+    talkSeconds: round(stats.talkSeconds),
+    turns: stats.turns,
+    words: stats.words,
+    speakers: stats.speakers.map((s) => ({
+      speaker: s.speaker,
+      talkSeconds: round(s.talkSeconds),
+      share: Math.round(s.share * 1000) / 1000,
+      turns: s.turns,
+      words: s.words,
+      longestMonologueSeconds: round(s.longestMonologueSeconds),
+      longestMonologueStartSeconds: round(s.longestMonologueStart),
+      interruptionsMade: s.interruptionsMade,
+      interruptionsReceived: s.interruptionsReceived,
+      overlapSeconds: round(s.overlapSeconds),
+    })),
+  };
+
+  return {
+    content: [
+      { type: 'text' as const, text },
+      { type: 'text' as const, text: JSON.stringify(json, null, 2) },
+    ],
+  };
+}
+
+// -- Bulk Archive ------------------------------------------------------------
+
+/**
+ * One file saved by save_transcripts_bulk, in the BULK_MANIFEST_FILE index.
+ */
+interface ManifestEntry {
+  fileName: string;
+  meetingId: string;
+  subject: string;
+  startDateTime: string;
+  endDateTime: string;
+  organizer?: string;
+  format: ExportFormat;
+  transcriptIds: string[];
+  savedAt: string;
+  webUrl: string;
+}
+
+/**
+ * Parse subjectPattern into a case-insensitive regex that matches
+ * anywhere in the subject, with * matching any characters.
+ */
+function parseSubjectPattern(value: unknown): RegExp | undefined | string {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') return 'subjectPattern must be a string.';
+  const body = value
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(body, 'i');
+}
+
+/**
+ * Entries of the folder's existing manifest, by lowercased file name.
+ * A missing or unreadable manifest starts a new one.
+ */
+async function loadManifest(graphToken: string, siteId: string, folderPath: string): Promise<Map<string, ManifestEntry>> {
+  const entries = new Map<string, ManifestEntry>();
+  const raw = await downloadFromSharePoint(graphToken, siteId, folderPath, BULK_MANIFEST_FILE);
+  if (raw === null) return entries;
+
+  try {
+    const manifest = JSON.parse(raw) as { files?: ManifestEntry[] };
+    for (const entry of manifest.files ?? []) {
+      if (typeof entry?.fileName === 'string' && typeof entry.meetingId === 'string') {
+        entries.set(entry.fileName.toLowerCase(), entry);
+      }
+    }
+  } catch (err: any) {
+    console.warn('[bulk] Ignoring unreadable ' + BULK_MANIFEST_FILE + ': ' + err.message);
+  }
+  return entries;
+}
+
+/**
+ * Upload the manifest with every entry, oldest meeting first.
+ * Returns the manifest's web URL.
+ */
+async function writeManifest(
+  graphToken: string,
+  siteId: string,
+  folderPath: string,
+  manifest: Map<string, ManifestEntry>
+): Promise<string> {
+  const files = [...manifest.values()].sort(
+    (a, b) => Date.parse(a.startDateTime) - Date.parse(b.startDateTime) || a.fileName.localeCompare(b.fileName)
+  );
+  const content = JSON.stringify({ updated: new Date().toISOString(), files }, null, 2);
+  return uploadToSharePoint(graphToken, siteId, folderPath, BULK_MANIFEST_FILE, content, 'application/json; charset=utf-8');
+}
+
+/**
+ * The first free file name for a meeting: "{Subject}_{date}" as
+ * save_transcript names it, else with the start time ("_1430") added,
+ * else also with a short hash of the meeting ID. The candidates depend
+ * only on the meeting, never on the other meetings in the run.
+ *
+ * @param taken - Lowercased names already in the folder or used in this run
+ */
+function bulkFileName(meeting: OnlineMeeting, format: ExportFormat, taken: Set<string>, timeZone?: string): string {
+  const base = meetingFileBase(meeting, timeZone);
+  const time = formatDateTime(meeting.startDateTime, timeZone).substring(11, 16).replace(':', '');
+  const hash = createHash('sha256').update(meeting.id).digest('hex').slice(0, 8);
+  const candidates = [base, base + '_' + time, base + '_' + time + '_' + hash].map((name) => name + '.' + format);
+  return candidates.find((name) => !taken.has(name.toLowerCase())) ?? candidates[candidates.length - 1];
+}
+
+async function handleSaveTranscriptsBulk(
+  graphToken: string,
+  args: Record<string, unknown>
+) {
+  const siteUrl = (args.siteUrl as string) || process.env.SHAREPOINT_SITE_URL || '';
+  const folderPath = (args.folderPath as string) || process.env.SHAREPOINT_FOLDER || 'Meeting Transcripts';
+  const format = ((args.format as string | undefined) || 'md').toLowerCase() as ExportFormat;
+
+  if (!siteUrl) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'No SharePoint site URL provided. Either pass siteUrl or set the SHAREPOINT_SITE_URL environment variable.',
+        },
+      ],
+      isError: true,
+    };
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'format must be one of: ' + EXPORT_FORMATS.map((f) => '"' + f + '"').join(', ') + '.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const range = parseDateRange(args);
+  if (typeof range === 'string') {
+    return { content: [{ type: 'text' as const, text: range }], isError: true };
+  }
+  const timeZone = range.timeZone;
+  const subject = parseSubjectPattern(args.subjectPattern);
+  if (typeof subject === 'string') {
+    return { content: [{ type: 'text' as const, text: subject }], isError: true };
+  }
+  const organizer = typeof args.organizer === 'string' && args.organizer.trim() ? args.organizer.trim() : undefined;
+
+  // Validate once; each meeting gets its own mapper and redactor below, so
+  // its file's numbering and redaction summary are its own
+  const cleaning = parseCleaningOptions(args);
+  if (typeof cleaning === 'string') {
+    return { content: [{ type: 'text' as const, text: cleaning }], isError: true };
+  }
+  const newSpeakers = speakerMapperFactory(args);
+  if (typeof newSpeakers === 'string') {
+    return { content: [{ type: 'text' as const, text: newSpeakers }], isError: true };
+  }
+  const newRedactor = redactorFactory(args);
+  if (typeof newRedactor === 'string') {
+    return { content: [{ type: 'text' as const, text: newRedactor }], isError: true };
+  }
+
+  const top = Math.min(
+    typeof args.maxMeetings === 'number' && args.maxMeetings > 0 ? args.maxMeetings : BULK_DEFAULT_MEETINGS,
+    BULK_MAX_MEETINGS
+  );
+
+  // 1. Find the meetings with transcripts; keep the most recent `top`, then go oldest first
+  const found = await listMeetings(graphToken, { ...range, top: BULK_SCAN_MEETINGS, subject, organizer });
+  await reportProgress('Checking transcript availability for ' + found.length + ' meetings');
+  const availability = await checkTranscriptAvailability(graphToken, found.map((m) => m.id));
+  const available = found
+    .filter((m) => availability.get(m.id))
+    .sort((a, b) => Date.parse(b.startDateTime) - Date.parse(a.startDateTime));
+  const meetings = available.slice(0, top).reverse();
+
+  // 2. See what the folder already holds
+  await reportProgress('Reading SharePoint folder ' + folderPath);
+  const siteId = await resolveSiteId(graphToken, siteUrl);
+  const taken = await listSharePointFiles(graphToken, siteId, folderPath);
+  const manifest = await loadManifest(graphToken, siteId, folderPath);
+
+  // save_transcript's "{Subject}_{date}" name, by how many meetings in the range share it
+  const plainNames = new Map<string, number>();
+  for (const m of available) {
+    const name = (meetingFileBase(redactMeeting(m, newRedactor()), timeZone) + '.' + format).toLowerCase();
+    plainNames.set(name, (plainNames.get(name) ?? 0) + 1);
+  }
+  const claimed = new Set(manifest.keys());
+
+  // 3. Save each meeting that is not archived yet. The manifest is written
+  // after each upload, so files saved before a failure or cancellation stay indexed.
+  const report: string[] = [];
+  let saved = 0;
+  let skipped = 0;
+  let failed = 0;
+  let manifestLine = BULK_MANIFEST_FILE + ' unchanged';
+
+  for (const [i, target] of meetings.entries()) {
+    const redactor = newRedactor();
+    const meeting = redactMeeting(target, redactor);
+    const label = '**' + (meeting.subject || '(No subject)') + '** (' + formatDateTime(meeting.startDateTime, timeZone) + ')';
+    await reportProgress('Saving meeting ' + (i + 1) + ' of ' + meetings.length + ': ' + (meeting.subject || '(No subject)'));
+
+    // Archived already: a file this tool saved for the meeting, in this format, still in the folder
+    const archived = [...manifest.values()].find((e) =>
+      e.meetingId === meeting.id && e.format === format && taken.has(e.fileName.toLowerCase())
+    );
+    if (archived) {
+      skipped++;
+      report.push((i + 1) + '. ' + label + ' — skipped, already archived as ' + archived.fileName);
+      continue;
+    }
+
+    // Saved by save_transcript: its file name is in the folder, no other meeting in the
+    // range has that name, and the manifest does not give the file to another meeting
+    const plainName = meetingFileBase(meeting, timeZone) + '.' + format;
+    const plainKey = plainName.toLowerCase();
+    if (taken.has(plainKey) && plainNames.get(plainKey) === 1 && !claimed.has(plainKey)) {
+      skipped++;
+      report.push((i + 1) + '. ' + label + ' — skipped, ' + plainName + ' is already in the folder');
+      continue;
+    }
+
+    try {
+      const transcripts = (await listTranscripts(graphToken, meeting.id)).sort(
+        (a, b) => Date.parse(a.createdDateTime) - Date.parse(b.createdDateTime)
+      );
+      if (transcripts.length === 0) {
+        report.push((i + 1) + '. ' + label + ' — no transcript available');
+        continue;
+      }
+
+      const fileName = bulkFileName(meeting, format, taken, timeZone);
+      taken.add(fileName.toLowerCase());
+      const { file } = await buildTranscriptFile(graphToken, meeting, transcripts, {
+        format,
+        cleaning,
+        speakers: newSpeakers(),
+        redactor,
+        timeZone,
+      });
+      const webUrl = await uploadToSharePoint(graphToken, siteId, folderPath, fileName, file.content, file.mimeType);
+
+      saved++;
+      report.push((i + 1) + '. ' + label + ' — saved as ' + fileName + '\n   ' + webUrl);
+      manifest.set(fileName.toLowerCase(), {
+        fileName,
+        meetingId: meeting.id,
+        subject: meeting.subject,
+        startDateTime: meeting.startDateTime,
+        endDateTime: meeting.endDateTime,
+        organizer: meeting.organizer?.address || meeting.organizer?.name,
+        format,
+        transcriptIds: transcripts.map((t) => t.id),
+        savedAt: new Date().toISOString(),
+        webUrl,
+      });
+
+      try {
+        const manifestUrl = await writeManifest(graphToken, siteId, folderPath, manifest);
+        manifestLine = BULK_MANIFEST_FILE + ' (' + manifest.size + ' files) ' + manifestUrl;
+      } catch (err: any) {
+        if (!(err instanceof GraphError) || err.code === 'RequestCancelled') throw err;
+        console.warn('[bulk] Failed to update ' + BULK_MANIFEST_FILE + ': ' + err.message);
+        manifestLine = BULK_MANIFEST_FILE + ' not updated: ' + err.message;
+      }
+    } catch (err: any) {
+      if (!(err instanceof GraphError) || err.code === 'RequestCancelled') throw err;
+      console.warn('[bulk] Failed to save meeting ' + meeting.id + ': ' + err.message);
+      failed++;
+      report.push((i + 1) + '. ' + label + ' — failed: ' + err.message);
+    }
+  }
+
+  const filters = [
+    ...(subject ? ['subject "' + String(args.subjectPattern).trim() + '"'] : []),
+    ...(organizer ? ['organizer "' + organizer + '"'] : []),
+  ];
+  let text = 'Bulk save to SharePoint: ' + folderPath + ' (' + siteUrl + ')\n' +
+    'Meetings with transcripts: ' + available.length +
+    (describeDateRange(range) || ' from the last 30 days') +
+    (filters.length > 0 ? ', ' + filters.join(', ') : '') + '\n' +
+    (available.length > top
+      ? 'Stopped at maxMeetings (' + top + ' of ' + available.length + ') with the most recent meetings; ' +
+        're-run with endDate ' + formatDateTime(meetings[0].startDateTime, timeZone).substring(0, 10) +
+        ' for earlier ones.\n'
+      : '') +
+    'Saved: ' + saved + ' · Already archived: ' + skipped + ' · Failed: ' + failed + '\n' +
+    'Format: ' + format + '\n' +
+    'Manifest: ' + manifestLine + '\n' +
+    '---\n\n';
+
+  text += meetings.length === 0 ? 'No meetings with transcripts found.' : report.join('\n');
+  return { content: [{ type: 'text' as const, text }] };
+}
+
+// -- Subscription Handlers ---------------------------------------------------
+
+function describeSubscription(record: ReturnType<typeof listSubscriptions>[number], index: number): string {
+  const what = record.kind === 'transcripts' ? 'New transcripts' : 'New recordings';
+  const scope = record.meetingId
+    ? 'meeting ' + record.meetingId
+    : 'all meetings organised by ' + (record.targetUserId || 'you');
+  return (index + 1) + '. Subscription ID: ' + record.id + '\n' +
+    '   Watching: ' + what + ' — ' + scope + '\n' +
+    '   Status: ' + record.status + ', expires ' + record.expirationDateTime + '\n' +
+    '   Auto-save: ' + (record.autoSave
+      ? 'yes → ' + (record.siteUrl || 'default site') + ' / ' + (record.folderPath || 'default folder')
+      : 'no') +
+    (record.lastError ? '\n   Last error: ' + record.lastError : '');
+}
+
+async function handleSubscribeToTranscripts(
+  graphToken: string,
+  owner: SubscriptionOwner,
+  args: Record<string, unknown>
+) {
+  const resourceType = (args.resourceType as string | undefined) || 'transcripts';
+  const autoSave = args.autoSave === true;
+  const siteUrl = (args.siteUrl as string) || process.env.SHAREPOINT_SITE_URL || '';
+
+  if (!['transcripts', 'recordings', 'both'].includes(resourceType)) {
+    return {
+      content: [{ type: 'text' as const, text: 'resourceType must be "transcripts", "recordings" or "both".' }],
+      isError: true,
+    };
+  }
+
+  if (autoSave && !siteUrl) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'autoSave needs a SharePoint site. Either pass siteUrl or set the SHAREPOINT_SITE_URL environment variable.',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Without a meeting argument, watch every meeting the user organises
+  let meeting: OnlineMeeting | undefined;
+  if (args.meetingId || args.joinWebUrl || args.meetingName) {
+    const target = await resolveTargetMeeting(graphToken, args);
+    if (isToolResult(target)) return target;
+    meeting = target;
+  }
+
+  const profile = await getProfile(graphToken);
+  const kinds: NotificationKind[] = resourceType === 'both'
+    ? ['transcripts', 'recordings']
+    : [resourceType as NotificationKind];
+
+  const created = [];
+  for (const kind of kinds) {
+    created.push(await subscribe(graphToken, owner, {
+      kind,
+      userId: profile.id,
+      meetingId: meeting?.id,
+      targetUserId: owner.appMode ? (args.userId as string) : undefined,
+      autoSave,
+      siteUrl: args.siteUrl as string | undefined,
+      folderPath: args.folderPath as string | undefined,
+    }));
+  }
+
+  const text = 'Created ' + created.length + ' subscription' + (created.length === 1 ? '' : 's') +
+    (meeting ? ' for "' + meeting.subject + '"' : '') + ':\n\n' +
+    created.map(describeSubscription).join('\n\n') +
+    '\n\nSubscriptions are renewed automatically. Use get_notification_log to see what has arrived.';
+  return { content: [{ type: 'text' as const, text }] };
+}
+
+async function handleListSubscriptions(owner: SubscriptionOwner) {
+  const records = listSubscriptions(owner);
+  if (records.length === 0) {
+    return {
+      content: [{ type: 'text' as const, text: 'You have no notification subscriptions. Use subscribe_to_transcripts to create one.' }],
+    };
+  }
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: records.length + ' subscription' + (records.length === 1 ? '' : 's') + ':\n\n' +
+          records.map(describeSubscription).join('\n\n'),
+      },
+    ],
+  };
+}
+
+async function handleDeleteSubscription(
+  graphToken: string,
+  owner: SubscriptionOwner,
+  args: Record<string, unknown>
+) {
+  const subscriptionId = args.subscriptionId as string | undefined;
+  if (!subscriptionId) {
+    return { content: [{ type: 'text' as const, text: 'subscriptionId is required.' }], isError: true };
+  }
+
+  const deleted = await unsubscribe(graphToken, owner, subscriptionId);
+  if (!deleted) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'Subscription "' + subscriptionId + '" not found. Use list_subscriptions to see your subscriptions.',
+        },
+      ],
+      isError: true,
+    };
+  }
+  return { content: [{ type: 'text' as const, text: 'Deleted subscription ' + subscriptionId + '.' }] };
+}
+
+async function handleGetNotificationLog(owner: SubscriptionOwner, args: Record<string, unknown>) {
+  const limit = Math.min(Math.max(1, (args.limit as number) || 20), 100);
+  const entries = getNotificationLog(owner, {
+    subscriptionId: args.subscriptionId as string | undefined,
+    limit,
+  });
+
+  if (entries.length === 0) {
+    return { content: [{ type: 'text' as const, text: 'No notifications received yet.' }] };
+  }
+
+  const lines = entries.map((e) =>
+    '- ' + e.receivedDateTime + ' ' + e.event +
+    (e.meetingId ? ' | meeting ' + e.meetingId : '') +
+    (e.itemId ? ' | item ' + e.itemId : '') +
+    ' | ' + e.outcome + (e.detail ? ': ' + e.detail : '') +
+    ' (subscription ' + e.subscriptionId + ')'
+  );
+  return {
+    content: [
+      { type: 'text' as const, text: entries.length + ' most recent notifications:\n\n' + lines.join('\n') },
+    ],
+  };
+}
+
+// -- Resource Handlers -------------------------------------------------------
+
+const MEETING_RESOURCE_URI = /^meetings:\/\/(.+?)\/(details|transcript|transcript\/timestamped|recording)$/;
+
+/**
+ * Serve resources/read for the static resources and templates above.
+ * Per-meeting URIs are backed by the same handlers as the tools.
+ */
+async function handleReadResource(graphToken: string, uri: string) {
+  if (uri === 'meetings://recent') {
+    const result = await handleListRecentMeetings(graphToken, {});
+    return { contents: [{ uri, mimeType: 'text/markdown', text: result.content[0].text }] };
+  }
+
+  if (uri === 'meetings://profile') {
+    const profile = await getProfile(graphToken);
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(profile, null, 2) }] };
+  }
+
+  const match = uri.match(MEETING_RESOURCE_URI);
+  if (!match) {
+    throw new Error('Unknown resource: ' + uri);
+  }
+
+  const meetingId = decodeURIComponent(match[1]);
+  const view = match[2];
+
+  if (view === 'details') {
+    const meeting = await getMeetingById(graphToken, meetingId);
+    const transcripts = await listTranscripts(graphToken, meetingId);
+    const details = {
+      id: meeting.id,
+      subject: meeting.subject,
+      startDateTime: meeting.startDateTime,
+      endDateTime: meeting.endDateTime,
+      joinWebUrl: meeting.joinWebUrl,
+      transcripts: transcripts.map((t) => ({ id: t.id, createdDateTime: t.createdDateTime })),
+    };
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(details, null, 2) }] };
+  }
+
+  const result = view === 'recording'
+    ? await handleGetMeetingRecording(graphToken, { meetingId })
+    : await handleGetMeetingTranscript(graphToken, {
+      meetingId,
+      mode: view === 'transcript/timestamped' ? 'timestamped' : 'clean',
+    });
+  if (result.isError) {
+    throw new Error(result.content[0].text);
+  }
+  return { contents: [{ uri, mimeType: 'text/plain', text: result.content[0].text }] };
+}
+
+// -- Tool Routing ------------------------------------------------------------
+
+async function callTool(
+  graphToken: string,
+  name: string,
+  toolArgs: Record<string, unknown>,
+  owner: SubscriptionOwner | null
+) {
+  if (owner) {
+    switch (name) {
+      case 'subscribe_to_transcripts':
+        return await handleSubscribeToTranscripts(graphToken, owner, toolArgs);
+      case 'list_subscriptions':
+        return await handleListSubscriptions(owner);
+      case 'delete_subscription':
+        return await handleDeleteSubscription(graphToken, owner, toolArgs);
+      case 'get_notification_log':
+        return await handleGetNotificationLog(owner, toolArgs);
+    }
+  }
+
+  switch (name) {
+    case 'list_recent_meetings':
+      return await handleListRecentMeetings(graphToken, toolArgs);
+    case 'get_meeting_transcript':
+      return await handleGetMeetingTranscript(graphToken, toolArgs);
+    case 'save_transcript':
+      return await handleSaveTranscript(graphToken, toolArgs);
+    case 'save_transcripts_bulk':
+      return await handleSaveTranscriptsBulk(graphToken, toolArgs);
+    case 'get_meeting_recording':
+      return await handleGetMeetingRecording(graphToken, toolArgs);
+    case 'get_adhoc_transcript':
+      return await handleGetAdhocTranscript(graphToken, toolArgs);
+    case 'search_transcripts':
+      return await handleSearchTranscripts(graphToken, toolArgs);
+    case 'get_meeting_stats':
+      return await handleGetMeetingStats(graphToken, toolArgs);
+    default:
+      return {
+        content: [{ type: 'text' as const, text: 'Unknown tool: ' + name }],
+        isError: true,
+      };
+  }
+}
+
+/**
+ * Turn a Graph failure into an actionable message for the agent,
+ * keeping the Graph error code and request-id for support tickets.
+ */
+function describeGraphError(err: GraphError): string {
+  let advice: string;
+  if (err.code === 'RequestCancelled') {
+    advice = 'The request was cancelled.';
+  } else if (err.isTimeout) {
+    advice = 'Microsoft Graph did not respond in time. Try again, or narrow the date range.';
+  } else if (err.isThrottled) {
+    advice = 'Microsoft Graph is throttling requests and retries were exhausted. ' +
+      'Wait ' + (err.retryAfterSeconds !== undefined ? err.retryAfterSeconds + ' seconds' : 'a minute') +
+      ' and try again.';
+  } else if (err.status === 401) {
+    advice = 'Microsoft Graph rejected the access token. Sign in again to refresh your session.';
+  } else if (err.status === 403) {
+    advice = 'Access denied. You may not be the organiser or an attendee of this meeting, the meeting may ' +
+      'belong to another tenant, or the app is missing admin consent for the required permission.';
+  } else if (err.status === 404) {
+    advice = 'Not found. Check the meeting, transcript or recording ID, or that the item has not been deleted.';
+  } else if (err.status === 0) {
+    advice = 'Could not reach Microsoft Graph. Check network connectivity and try again.';
+  } else {
+    advice = 'Microsoft Graph returned an unexpected error.';
+  }
+
+  return 'Error: ' + advice + '\n' +
+    '(Graph ' + (err.status || 'no response') + ' ' + err.code +
+    (err.requestId ? ', request-id ' + err.requestId : '') + ': ' + err.message.replace(/^Graph API \S+ \S+: /, '') + ')';
+}
+
+// -- MCP Server --------------------------------------------------------------
+
+/**
+ * Per-caller state the MCP handlers read. In HTTP session mode the same
+ * context object lives as long as the session and is refreshed on every
+ * request.
+ */
+export interface McpContext {
+  /** Graph token for the current call */
+  getGraphToken: () => Promise<string>;
+  /**
+   * The caller, for subscriptions and audit logs. Null when webhooks are
+   * unavailable (stdio), which also hides the subscription tools.
+   */
+  owner: SubscriptionOwner | null;
+  appMode: boolean;
+}
+
+/**
+ * Create an MCP Server wired to the tool and resource handlers. Handlers
+ * read `context` when they run, so a session's server always uses the
+ * latest Graph token.
+ */
+export function createMcpServer(context: McpContext): Server {
+  const appMode = context.appMode;
+  const tools = appMode ? APP_MODE_TOOLS : TOOLS;
+
+  // Resources address "my" meetings, so they are only offered with OBO
+  const server = new Server(
+    { name: 'transcripts-mcp-server', version: '1.0.0' },
+    { capabilities: appMode ? { tools: {} } : { tools: {}, resources: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: context.owner ? tools : tools.filter((tool) => !SUBSCRIPTION_TOOLS.includes(tool.name)),
+  }));
+
+  if (!appMode) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: RESOURCES,
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      try {
+        const graphToken = await context.getGraphToken();
+        return await withGraphSignal(extra.signal, () =>
+          handleReadResource(graphToken, request.params.uri)
+        );
+      } catch (err: any) {
+        if (err instanceof GraphError) {
+          throw new McpError(
+            err.status === 404 ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+            describeGraphError(err)
+          );
+        }
+        throw err;
+      }
+    });
+  }
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const toolArgs = (args ?? {}) as Record<string, unknown>;
+
+    let targetUser: string | undefined;
+    if (appMode) {
+      targetUser = typeof toolArgs.userId === 'string' ? toolArgs.userId.trim() : '';
+      if (!targetUser) {
+        return {
+          content: [{ type: 'text' as const, text: 'userId is required in application-permission mode.' }],
+          isError: true,
+        };
+      }
+      console.log('[AUDIT] ' + (context.owner?.name ?? 'unknown caller') + ' called ' + name + ' for user ' + targetUser);
+    }
+
+    try {
+      const graphToken = await context.getGraphToken();
+      return await withGraphSignal(extra.signal, () =>
+        withProgress(extra, () =>
+          withGraphUser(targetUser, () => callTool(graphToken, name, toolArgs, context.owner))
+        )
+      );
+    } catch (err: any) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: err instanceof GraphError ? describeGraphError(err) : 'Error: ' + err.message,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
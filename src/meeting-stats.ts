@@ -0,0 +1,239 @@
+/**
+ * Meeting Statistics
+ *
+ * Per-speaker participation figures computed from parsed VTT cues, used
+ * by the get_meeting_stats tool:
+ *  - Talk time: the union of the speaker's cue intervals, so cues that
+ *    overlap each other are not counted twice
+ *  - Share: talk time as a fraction of everyone's talk time
+ *  - Turns: runs of consecutive cues from the same speaker
+ *  - Words: whitespace-separated words in the speaker's cues
+ *  - Longest monologue: the longest stretch of a turn without a pause
+ *    over MAX_PAUSE_SECONDS, from its first cue's start to its last
+ *    cue's end
+ *  - Interruptions: times the speaker started while another speaker's
+ *    cue was still running (and, conversely, times they were interrupted)
+ *
+ * Cue timings come from Teams' speech recognition, so talk time is an
+ * estimate: pauses inside a cue count as speech, and overlaps are only
+ * as precise as the cue boundaries.
+ */
+
+import { VttCue } from './vtt-parser';
+
+// ── Configuration ───────────────────────────────────────────────────
+
+/** Overlaps shorter than this are cue-boundary jitter, not interruptions */
+const MIN_OVERLAP_SECONDS = 0.5;
+
+/** A longer silence ends a monologue, even if the same speaker continues */
+const MAX_PAUSE_SECONDS = 5;
+
+const UNKNOWN_SPEAKER = 'Unknown speaker';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface SpeakerStats {
+  speaker: string;
+  talkSeconds: number;
+  /** Fraction (0-1) of the total talk time of all speakers */
+  share: number;
+  turns: number;
+  words: number;
+  longestMonologueSeconds: number;
+  /** Offset at which the longest monologue started */
+  longestMonologueStart: number;
+  /** Times this speaker started talking over someone else */
+  interruptionsMade: number;
+  /** Times someone else started talking over this speaker */
+  interruptionsReceived: number;
+  /** Seconds this speaker spent talking over or being talked over */
+  overlapSeconds: number;
+}
+
+export interface MeetingStats {
+  /** From the first cue's start to the last cue's end */
+  durationSeconds: number;
+  /** Union of all speech, so simultaneous talk counts once */
+  talkSeconds: number;
+  turns: number;
+  words: number;
+  /** Speakers by talk time, most first */
+  speakers: SpeakerStats[];
+}
+
+// ── Computation ─────────────────────────────────────────────────────
+
+/**
+ * Compute participation statistics from cues in transcript order.
+ * Cues without a speaker are attributed to "Unknown speaker".
+ */
+export function computeMeetingStats(cues: VttCue[]): MeetingStats {
+  const bySpeaker = new Map<string, SpeakerStats>();
+  const intervals = new Map<string, Array<[number, number]>>();
+  const statsFor = (speaker: string): SpeakerStats => {
+    let stats = bySpeaker.get(speaker);
+    if (!stats) {
+      stats = {
+        speaker,
+        talkSeconds: 0,
+        share: 0,
+        turns: 0,
+        words: 0,
+        longestMonologueSeconds: 0,
+        longestMonologueStart: 0,
+        interruptionsMade: 0,
+        interruptionsReceived: 0,
+        overlapSeconds: 0,
+      };
+      bySpeaker.set(speaker, stats);
+      intervals.set(speaker, []);
+    }
+    return stats;
+  };
+
+  // Turns, words and monologues
+  let turnSpeaker: string | null = null;
+  let monologueStart = 0;
+  let monologueEnd = 0;
+  const closeMonologue = () => {
+    if (turnSpeaker === null) return;
+    const stats = statsFor(turnSpeaker);
+    if (monologueEnd - monologueStart > stats.longestMonologueSeconds) {
+      stats.longestMonologueSeconds = monologueEnd - monologueStart;
+      stats.longestMonologueStart = monologueStart;
+    }
+  };
+
+  for (const cue of cues) {
+    const speaker = cue.speaker || UNKNOWN_SPEAKER;
+    const stats = statsFor(speaker);
+    stats.words += countWords(cue.text);
+    intervals.get(speaker)!.push([cue.startSeconds, Math.max(cue.endSeconds, cue.startSeconds)]);
+
+    if (speaker === turnSpeaker && cue.startSeconds - monologueEnd <= MAX_PAUSE_SECONDS) {
+      monologueEnd = Math.max(monologueEnd, cue.endSeconds);
+      continue;
+    }
+
+    closeMonologue();
+    if (speaker !== turnSpeaker) stats.turns++;
+    turnSpeaker = speaker;
+    monologueStart = cue.startSeconds;
+    monologueEnd = cue.endSeconds;
+  }
+  closeMonologue();
+
+  // Interruptions: a cue starting inside another speaker's running cue
+  const byStart = [...cues].sort((a, b) => a.startSeconds - b.startSeconds);
+  const active: VttCue[] = [];
+  for (const cue of byStart) {
+    for (let i = active.length - 1; i >= 0; i--) {
+      if (active[i].endSeconds <= cue.startSeconds) active.splice(i, 1);
+    }
+
+    const speaker = cue.speaker || UNKNOWN_SPEAKER;
+    const interrupted = new Set<string>();
+    for (const other of active) {
+      const otherSpeaker = other.speaker || UNKNOWN_SPEAKER;
+      if (otherSpeaker === speaker) continue;
+      const overlap = Math.min(other.endSeconds, cue.endSeconds) - cue.startSeconds;
+      if (overlap < MIN_OVERLAP_SECONDS) continue;
+      statsFor(speaker).overlapSeconds += overlap;
+      statsFor(otherSpeaker).overlapSeconds += overlap;
+      interrupted.add(otherSpeaker);
+    }
+    if (interrupted.size > 0) {
+      statsFor(speaker).interruptionsMade++;
+      for (const other of interrupted) statsFor(other).interruptionsReceived++;
+    }
+    active.push(cue);
+  }
+
+  // Talk time per speaker and overall
+  const all: Array<[number, number]> = [];
+  let speakerTotal = 0;
+  for (const [speaker, spans] of intervals) {
+    const stats = bySpeaker.get(speaker)!;
+    stats.talkSeconds = unionLength(spans);
+    speakerTotal += stats.talkSeconds;
+    all.push(...spans);
+  }
+
+  const speakers = [...bySpeaker.values()].sort((a, b) => b.talkSeconds - a.talkSeconds);
+  for (const stats of speakers) {
+    stats.share = speakerTotal > 0 ? stats.talkSeconds / speakerTotal : 0;
+  }
+
+  return {
+    durationSeconds: cues.length > 0
+      ? Math.max(...cues.map((c) => c.endSeconds)) - Math.min(...cues.map((c) => c.startSeconds))
+      : 0,
+    talkSeconds: unionLength(all),
+    turns: speakers.reduce((sum, s) => sum + s.turns, 0),
+    words: speakers.reduce((sum, s) => sum + s.words, 0),
+    speakers,
+  };
+}
+
+/**
+ * Combine the statistics of several transcripts of one meeting (e.g.
+ * transcription was restarted). Monologue start offsets stay relative
+ * to their own transcript.
+ */
+export function mergeMeetingStats(parts: MeetingStats[]): MeetingStats {
+  const bySpeaker = new Map<string, SpeakerStats>();
+  for (const part of parts) {
+    for (const s of part.speakers) {
+      const merged = bySpeaker.get(s.speaker);
+      if (!merged) {
+        bySpeaker.set(s.speaker, { ...s });
+        continue;
+      }
+      merged.talkSeconds += s.talkSeconds;
+      merged.turns += s.turns;
+      merged.words += s.words;
+      merged.interruptionsMade += s.interruptionsMade;
+      merged.interruptionsReceived += s.interruptionsReceived;
+      merged.overlapSeconds += s.overlapSeconds;
+      if (s.longestMonologueSeconds > merged.longestMonologueSeconds) {
+        merged.longestMonologueSeconds = s.longestMonologueSeconds;
+        merged.longestMonologueStart = s.longestMonologueStart;
+      }
+    }
+  }
+
+  const speakers = [...bySpeaker.values()].sort((a, b) => b.talkSeconds - a.talkSeconds);
+  const speakerTotal = speakers.reduce((sum, s) => sum + s.talkSeconds, 0);
+  for (const stats of speakers) {
+    stats.share = speakerTotal > 0 ? stats.talkSeconds / speakerTotal : 0;
+  }
+
+  return {
+    durationSeconds: parts.reduce((sum, p) => sum + p.durationSeconds, 0),
+    talkSeconds: parts.reduce((sum, p) => sum + p.talkSeconds, 0),
+    turns: parts.reduce((sum, p) => sum + p.turns, 0),
+    words: parts.reduce((sum, p) => sum + p.words, 0),
+    speakers,
+  };
+}
+
+function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Total length covered by a set of possibly overlapping intervals.
+ */
+function unionLength(spans: Array<[number, number]>): number {
+  const sorted = [...spans].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let end = -Infinity;
+  for (const [start, stop] of sorted) {
+    if (stop <= end) continue;
+    total += stop - Math.max(start, end);
+    end = stop;
+  }
+  return total;
+}
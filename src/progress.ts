@@ -0,0 +1,68 @@
+/**
+ * MCP Progress Notifications
+ *
+ * Long tool calls walk through several Graph hops (calendar search →
+ * meeting resolution → transcript download → SharePoint upload). When
+ * the client asks for progress (a progressToken in the request's _meta),
+ * each hop sends a notifications/progress message so the client sees
+ * activity instead of a silent request that may hit its timeout.
+ *
+ * The reporter is bound to the current tool call with withProgress(),
+ * so handlers and Graph helpers can call reportProgress() without
+ * threading it through every signature. Without a progress token,
+ * reportProgress() does nothing.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * The parts of the MCP SDK's request handler `extra` argument needed
+ * to report progress.
+ */
+export interface ProgressContext {
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+interface ProgressState {
+  context: ProgressContext;
+  progressToken: string | number;
+  step: number;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+const progressStore = new AsyncLocalStorage<ProgressState>();
+
+/**
+ * Run `fn` with reportProgress() bound to the request in `context`.
+ */
+export function withProgress<T>(context: ProgressContext, fn: () => Promise<T>): Promise<T> {
+  const progressToken = context._meta?.progressToken;
+  if (progressToken === undefined) return fn();
+  return progressStore.run({ context, progressToken, step: 0 }, fn);
+}
+
+/**
+ * Report that the current tool call reached its next step. Progress
+ * counts steps, so it always increases as the protocol requires;
+ * `total` is passed through when the number of steps is known.
+ * Failures to deliver are logged and otherwise ignored.
+ */
+export async function reportProgress(message: string, total?: number): Promise<void> {
+  const state = progressStore.getStore();
+  if (!state) return;
+
+  state.step++;
+  try {
+    await state.context.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken: state.progressToken, progress: state.step, total, message },
+    });
+  } catch (err: any) {
+    console.warn(`[MCP] Could not send progress notification: ${err.message}`);
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * PII Redaction
+ *
+ * Removes personal data from transcript text before it is returned to
+ * the agent or saved to SharePoint. Runs on parsed cues, after the VTT
+ * parser and before rendering, so every output format is redacted the
+ * same way.
+ *
+ * Built-in detectors:
+ *  - email: email addresses
+ *  - phone: phone numbers (7-15 digits, international or grouped)
+ *  - iban:  IBANs, confirmed with the ISO 13616 mod-97 check
+ *  - card:  payment card numbers, confirmed with the Luhn check
+ *  - ip:    IPv4 and full-form IPv6 addresses
+ *
+ * Custom detectors come from the JSON file in REDACTION_CONFIG_FILE:
+ *   { "patterns": [{ "name": "employee_id", "pattern": "EMP-\\d{6}" }],
+ *     "terms": ["Project Falcon", "Northwind Traders"] }
+ * Patterns are regular expressions (case-insensitive unless "flags" is
+ * given); terms match whole words, case-insensitively.
+ *
+ * Modes:
+ *  - mask: letters and digits become "*", punctuation is kept
+ *  - hash: [TYPE:1a2b3c4d], a keyed hash so the same value always gets
+ *          the same token (set REDACTION_HASH_KEY to keep tokens stable
+ *          across restarts)
+ *  - tag:  [TYPE]
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { VttCue } from './vtt-parser';
+
+// ── Configuration ───────────────────────────────────────────────────
+const REDACTION_CONFIG_FILE = process.env.REDACTION_CONFIG_FILE || '';
+const REDACTION_HASH_KEY = process.env.REDACTION_HASH_KEY || randomBytes(32).toString('hex');
+
+const HASH_LENGTH = 8;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type RedactionMode = 'mask' | 'hash' | 'tag';
+
+export const REDACTION_MODES: RedactionMode[] = ['mask', 'hash', 'tag'];
+
+export const BUILT_IN_DETECTORS = ['email', 'phone', 'iban', 'card', 'ip'];
+
+interface Detector {
+  name: string;
+  regex: RegExp;
+  /** Extra check on a regex match, e.g. a checksum */
+  accept?: (match: string) => boolean;
+}
+
+interface RedactionConfig {
+  patterns?: Array<{ name?: string; pattern?: string; flags?: string }>;
+  terms?: string[];
+}
+
+// ── Built-in Detectors ──────────────────────────────────────────────
+
+const BUILT_INS: Detector[] = [
+  {
+    name: 'email',
+    regex: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+  },
+  {
+    name: 'iban',
+    regex: /\b[A-Z]{2}\d{2}(?:[ -]?[A-Z0-9]{4}){2,7}(?:[ -]?[A-Z0-9]{1,3})?\b/g,
+    accept: isValidIban,
+  },
+  {
+    name: 'card',
+    regex: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+    accept: (match) => luhnValid(match.replace(/\D/g, '')),
+  },
+  {
+    name: 'phone',
+    regex: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,11}(?:[ .-]\d{2,5}){0,4}(?![\w-])/g,
+    accept: isLikelyPhone,
+  },
+  {
+    name: 'ip',
+    regex: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi,
+  },
+];
+
+/**
+ * Phone numbers need 7-15 digits. Without a "+" or area code in
+ * parentheses, a number must be split into at least three groups or be
+ * a 10-11 digit run, so years ("2024-2025"), dates and amounts are left
+ * alone.
+ */
+function isLikelyPhone(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) return false;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(match)) return false;
+  if (/^\+|\(/.test(match)) return true;
+  const groups = match.split(/[ .-]/).length;
+  return groups >= 3 ? digits.length >= 8 : groups === 1 && digits.length >= 10 && digits.length <= 11;
+}
+
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/[ -]/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = ch >= 'A' && ch <= 'Z' ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// ── Custom Detectors ────────────────────────────────────────────────
+
+let customDetectors: Detector[] | null = null;
+
+/**
+ * Detectors from REDACTION_CONFIG_FILE, loaded on first use. Invalid
+ * entries are logged and skipped; a missing or unreadable file disables
+ * custom detection rather than failing every call.
+ */
+function getCustomDetectors(): Detector[] {
+  if (customDetectors) return customDetectors;
+  customDetectors = [];
+  if (!REDACTION_CONFIG_FILE) return customDetectors;
+
+  let config: RedactionConfig;
+  try {
+    config = JSON.parse(readFileSync(REDACTION_CONFIG_FILE, 'utf8'));
+  } catch (err: any) {
+    console.error(`[redaction] Could not load ${REDACTION_CONFIG_FILE}: ${err.message}`);
+    return customDetectors;
+  }
+
+  for (const [i, entry] of (config.patterns || []).entries()) {
+    const name = entry.name || `pattern_${i + 1}`;
+    try {
+      const flags = new Set((entry.flags ?? 'i') + 'g');
+      customDetectors.push({ name, regex: new RegExp(entry.pattern || '', [...flags].join('')) });
+    } catch (err: any) {
+      console.error(`[redaction] Skipping pattern "${name}": ${err.message}`);
+    }
+  }
+
+  const terms = (config.terms || []).filter((t) => typeof t === 'string' && t.trim());
+  if (terms.length > 0) {
+    // Longest first, so "Contoso Bank" wins over "Contoso"
+    const alternatives = terms
+      .map((t) => t.trim())
+      .sort((a, b) => b.length - a.length)
+      .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+    customDetectors.push({
+      name: 'term',
+      regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu'),
+    });
+  }
+
+  console.log(`[redaction] Loaded ${customDetectors.length} custom detector(s) from ${REDACTION_CONFIG_FILE}`);
+  return customDetectors;
+}
+
+// ── Redactor ────────────────────────────────────────────────────────
+
+/**
+ * Redacts text with one mode and set of detectors, counting what it
+ * replaced across every call.
+ */
+export class Redactor {
+  /** Items replaced so far, by detector name */
+  readonly counts = new Map<string, number>();
+  private readonly detectors: Detector[];
+
+  /**
+   * @param mode - How to replace detected values
+   * @param only - Detector names to use (built-in names, custom pattern
+   *               names or "term", case-insensitive); defaults to all of
+   *               them, and an empty list means the custom ones only
+   */
+  constructor(private readonly mode: RedactionMode, only?: string[]) {
+    const custom = getCustomDetectors();
+    const all = [...BUILT_INS, ...custom];
+    const wanted = only?.map((name) => name.toLowerCase());
+    if (!wanted) this.detectors = all;
+    else if (wanted.length === 0) this.detectors = custom;
+    else this.detectors = all.filter((d) => wanted.includes(d.name.toLowerCase()));
+  }
+
+  /**
+   * Redact a piece of text. Where detections overlap, the earlier
+   * detector in the list wins (e.g. an email before a phone number
+   * inside it).
+   */
+  redact(text: string): string {
+    const found: Array<{ start: number; end: number; name: string }> = [];
+    for (const detector of this.detectors) {
+      for (const match of text.matchAll(detector.regex)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        if (match[0].length === 0 || (detector.accept && !detector.accept(match[0]))) continue;
+        if (found.some((f) => start < f.end && end > f.start)) continue;
+        found.push({ start, end, name: detector.name });
+      }
+    }
+    if (found.length === 0) return text;
+
+    found.sort((a, b) => a.start - b.start);
+    let result = '';
+    let position = 0;
+    for (const f of found) {
+      result += text.slice(position, f.start) + this.replacement(f.name, text.slice(f.start, f.end));
+      position = f.end;
+      this.counts.set(f.name, (this.counts.get(f.name) ?? 0) + 1);
+    }
+    return result + text.slice(position);
+  }
+
+  /**
+   * Redact the text and speaker name of each cue.
+   */
+  redactCues(cues: VttCue[]): VttCue[] {
+    return cues.map((cue) => ({
+      ...cue,
+      speaker: cue.speaker && this.redact(cue.speaker),
+      text: this.redact(cue.text),
+    }));
+  }
+
+  /**
+   * Summary of what was redacted, e.g. "2 email, 1 phone", or "nothing".
+   */
+  describe(): string {
+    if (this.counts.size === 0) return 'nothing found';
+    return [...this.counts].map(([name, count]) => count + ' ' + name).join(', ');
+  }
+
+  get total(): number {
+    return [...this.counts.values()].reduce((sum, n) => sum + n, 0);
+  }
+
+  private replacement(name: string, value: string): string {
+    const label = name.toUpperCase();
+    switch (this.mode) {
+      case 'mask':
+        return value.replace(/[\p{L}\p{N}]/gu, '*');
+      case 'hash': {
+        const normalised = value.toLowerCase().replace(/[\s().-]/g, '');
+        const digest = createHmac('sha256', REDACTION_HASH_KEY).update(normalised).digest('hex');
+        return `[${label}:${digest.slice(0, HASH_LENGTH)}]`;
+      }
+      case 'tag':
+        return `[${label}]`;
+    }
+  }
+}
+
+/**
+ * Names of all detectors available to callers: the built-ins, custom
+ * pattern names, and "term" when a term list is configured.
+ */
+export function availableDetectors(): string[] {
+  return [...BUILT_INS, ...getCustomDetectors()].map((d) => d.name);
+}
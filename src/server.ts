@@ -4,436 +4,313 @@
  * A remote MCP server hosted on Azure App Service that provides
  * Microsoft Teams meeting transcript retrieval via Microsoft Graph API.
  *
- * Transport: Streamable HTTP (stateless - one Server per request)
- * Auth:      OAuth 2.0 On-Behalf-Of (OBO) delegated flow
+ * Transport: Streamable HTTP (stateless - one Server per request, or
+ *            optional sessions with SSE via MCP_SESSION_MODE=stateful)
+ * Auth:      OAuth 2.0 On-Behalf-Of (OBO) delegated flow, or opt-in
+ *            application permissions with a per-call userId (app-mode.ts)
  *
- * Tools exposed:
- *   - list_recent_meetings   -> Discovery of meetings with transcript availability
- *   - get_meeting_transcript -> Full multi-hop retrieval + VTT cleaning
+ * Tools and resources are defined in mcp-server.ts, shared with the
+ * stdio entry point for desktop MCP clients (stdio.ts).
  */
 
+import { randomUUID } from 'node:crypto';
 import express, { Request, Response } from 'express';
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import {
-  ListToolsRequestSchema,
-  CallToolRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 
-import { extractBearerToken, getGraphTokenOBO } from './auth';
+import { checkAppModeAccess, describeCaller, isAppPermissionMode } from './app-mode';
+import { extractBearerToken, getGraphTokenAppOnly, getGraphTokenOBO, homeAccountIdFor } from './auth';
 import {
-  listMeetings,
-  listTranscripts,
-  getTranscriptContent,
-  findMeetingsByName,
-  resolveSiteId,
-  uploadToSharePoint,
-} from './graph';
-import { cleanVttTranscript } from './vtt-parser';
-
-// -- Tool Definitions -------------------------------------------------------
-
-const TOOLS = [
-  {
-    name: 'list_recent_meetings',
-    description:
-      'List recent Microsoft Teams online meetings for the signed-in user. ' +
-      'Optionally filter by date (ISO format: YYYY-MM-DD) and limit results. ' +
-      'Returns meeting subject, start/end times, and whether transcripts are available.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        date: {
-          type: 'string',
-          description: 'Filter meetings to this date (YYYY-MM-DD). If omitted, returns recent meetings across all dates.',
-        },
-        limit: {
-          type: 'number',
-          description: 'Maximum number of meetings to return (default: 10, max: 50).',
-        },
-      },
-      required: [] as string[],
-    },
-  },
-  {
-    name: 'get_meeting_transcript',
-    description:
-      'Retrieve the cleaned transcript for a Microsoft Teams meeting. ' +
-      'Searches by name (subject) and optionally by date, then downloads ' +
-      'and pre-processes the VTT transcript, stripping all timestamps and metadata. ' +
-      'Returns plain-text speaker-attributed dialogue ready for AI analysis.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        meetingName: {
-          type: 'string',
-          description: 'The name (subject) of the meeting to search for. Partial matches are supported.',
-        },
-        meetingDate: {
-          type: 'string',
-          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow results.',
-        },
-      },
-      required: ['meetingName'],
-    },
-  },
-  {
-    name: 'save_transcript',
-    description:
-      'Retrieve a meeting transcript and save it to a SharePoint document library. ' +
-      'The transcript is cleaned (VTT metadata stripped) and uploaded as a Markdown file ' +
-      'with speaker attribution, ready for RAG indexing, compliance archival, or further processing. ' +
-      'Also returns the transcript text in the response for immediate use.',
-    inputSchema: {
-      type: 'object' as const,
-      properties: {
-        meetingName: {
-          type: 'string',
-          description: 'The name (subject) of the meeting to search for. Partial matches are supported.',
-        },
-        meetingDate: {
-          type: 'string',
-          description: 'Date of the meeting in YYYY-MM-DD format. Helps narrow results.',
-        },
-        siteUrl: {
-          type: 'string',
-          description: 'SharePoint site URL (e.g. "contoso.sharepoint.com/sites/Meetings"). If omitted, uses the server default.',
-        },
-        folderPath: {
-          type: 'string',
-          description: 'Folder path within the document library (e.g. "Meeting Transcripts/2026"). If omitted, uses the server default.',
-        },
-      },
-      required: ['meetingName'],
-    },
-  },
-];
-
-// -- Tool Handlers -----------------------------------------------------------
-
-async function handleListRecentMeetings(
-  graphToken: string,
-  args: Record<string, unknown>
-) {
-  const date = args.date as string | undefined;
-  const limit = typeof args.limit === 'number' ? args.limit : 10;
-  const top = Math.min(limit, 50);
-
-  const meetings = await listMeetings(graphToken, { top, filterDate: date });
-
-  if (meetings.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: date ? 'No meetings found for ' + date + '.' : 'No recent meetings found.',
-        },
-      ],
-    };
-  }
+  AccessTokenClaims,
+  getProtectedResourceMetadata,
+  TokenValidationError,
+  validateAccessToken,
+} from './token-validator';
+import { createMcpServer, handleGetMeetingRecording, handleSaveTranscript, McpContext } from './mcp-server';
+import { isStatefulMode, McpSession, MemorySessionStore } from './sessions';
+import {
+  handleLifecycleRequest,
+  handleNotificationRequest,
+  startWebhooks,
+  SubscriptionOwner,
+} from './webhooks';
 
-  const results = await Promise.all(
-    meetings.map(async (m) => {
-      let hasTranscript = false;
-      try {
-        const transcripts = await listTranscripts(graphToken, m.id);
-        hasTranscript = transcripts.length > 0;
-      } catch {
-        // Transcript check failed
-      }
-      return {
-        subject: m.subject || '(No subject)',
-        startDateTime: m.startDateTime,
-        endDateTime: m.endDateTime,
-        meetingId: m.id,
-        hasTranscript,
-      };
-    })
-  );
-
-  const text = results
-    .map(
-      (r, i) =>
-        (i + 1) + '. **' + r.subject + '**\n' +
-        '   Start: ' + r.startDateTime + '\n' +
-        '   End: ' + r.endDateTime + '\n' +
-        '   Transcript: ' + (r.hasTranscript ? 'Available' : 'Not available') + '\n' +
-        '   Meeting ID: ' + r.meetingId
-    )
-    .join('\n\n');
-
-  return { content: [{ type: 'text' as const, text }] };
-}
+// -- Express App -------------------------------------------------------------
 
-async function handleGetMeetingTranscript(
-  graphToken: string,
-  args: Record<string, unknown>
-) {
-  const meetingName = args.meetingName as string;
-  const meetingDate = args.meetingDate as string | undefined;
-
-  if (!meetingName) {
-    return {
-      content: [{ type: 'text' as const, text: 'meetingName is required.' }],
-      isError: true,
-    };
-  }
+const app = express();
+app.use(express.json());
 
-  const meetings = await findMeetingsByName(graphToken, meetingName, meetingDate);
-
-  if (meetings.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'No meeting found matching "' + meetingName + '"' +
-            (meetingDate ? ' on ' + meetingDate : '') +
-            '. Try broadening your search term or checking the date.',
-        },
-      ],
-    };
-  }
+app.get('/health', (_req: Request, res: Response) => {
+  res.json({ status: 'ok', service: 'transcripts-mcp-server' });
+});
 
-  const meeting = meetings[0];
-
-  const transcripts = await listTranscripts(graphToken, meeting.id);
-  if (transcripts.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Meeting "' + meeting.subject + '" was found (' + meeting.startDateTime +
-            ') but has no transcript available. Ensure transcription was enabled during the meeting.',
-        },
-      ],
-    };
-  }
+// -- OAuth Protected Resource Metadata (RFC 9728) ----------------------------
 
-  const rawVtt = await getTranscriptContent(graphToken, meeting.id, transcripts[0].id);
-  const cleanText = cleanVttTranscript(rawVtt);
+const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
 
-  const header = 'Meeting: ' + meeting.subject + '\nDate: ' + meeting.startDateTime + '\n' +
-    'Meeting link: ' + meeting.joinWebUrl + '\n' +
-    'Transcript ID: ' + transcripts[0].id + '\n' +
-    'Transcript created: ' + transcripts[0].createdDateTime + '\n' +
-    '---\n\n';
+// Clients may also look it up with the MCP endpoint path appended
+app.get([RESOURCE_METADATA_PATH, RESOURCE_METADATA_PATH + '/mcp'], (_req: Request, res: Response) => {
+  res.json(getProtectedResourceMetadata());
+});
 
-  return { content: [{ type: 'text' as const, text: header + cleanText }] };
+/**
+ * Absolute URL of the metadata document, as the client reached us.
+ * PUBLIC_BASE_URL overrides it when a proxy rewrites the host.
+ */
+function resourceMetadataUrl(req: Request): string {
+  const base = process.env.PUBLIC_BASE_URL
+    || (req.get('x-forwarded-proto') || req.protocol).split(',')[0].trim() + '://'
+      + (req.get('x-forwarded-host') || req.get('host'));
+  return base.replace(/\/+$/, '') + RESOURCE_METADATA_PATH;
 }
 
-async function handleSaveTranscript(
-  graphToken: string,
-  args: Record<string, unknown>
-) {
-  const meetingName = args.meetingName as string;
-  const meetingDate = args.meetingDate as string | undefined;
-  const siteUrl = (args.siteUrl as string) || process.env.SHAREPOINT_SITE_URL || '';
-  const folderPath = (args.folderPath as string) || process.env.SHAREPOINT_FOLDER || 'Meeting Transcripts';
-
-  if (!meetingName) {
-    return {
-      content: [{ type: 'text' as const, text: 'meetingName is required.' }],
-      isError: true,
-    };
+// -- Graph Change Notifications ----------------------------------------------
+
+// Called by Graph, not MCP clients: authenticated by each subscription's clientState
+app.post('/notifications', handleNotificationRequest);
+app.post('/notifications/lifecycle', handleLifecycleRequest);
+
+// -- MCP Endpoint ------------------------------------------------------------
+
+/**
+ * Reject a request with an RFC 6750 bearer challenge pointing at the
+ * protected resource metadata. Without an error code the challenge just
+ * says a token is required.
+ */
+function sendAuthChallenge(
+  req: Request,
+  res: Response,
+  status: number,
+  message: string,
+  error?: { code: string; description: string; scope?: string }
+): void {
+  let challenge = 'Bearer realm="transcripts-mcp-server", resource_metadata="' + resourceMetadataUrl(req) + '"';
+  if (error) {
+    challenge += ', error="' + error.code + '", error_description="' + error.description.replace(/"/g, "'") + '"';
+    if (error.scope) challenge += ', scope="' + error.scope + '"';
   }
+  res.setHeader('WWW-Authenticate', challenge);
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32600, message },
+    id: null,
+  });
+}
 
-  if (!siteUrl) {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'No SharePoint site URL provided. Either pass siteUrl or set the SHAREPOINT_SITE_URL environment variable.',
-        },
-      ],
-      isError: true,
-    };
+/**
+ * MCP context of an HTTP caller: always an authenticated user, who owns
+ * any subscriptions and sessions they create.
+ */
+interface HttpMcpContext extends McpContext {
+  owner: SubscriptionOwner;
+}
+
+/**
+ * Authenticate an /mcp request: validate the bearer token, apply the
+ * application-mode allow-list and acquire a Graph token. Sends the
+ * error response itself and returns null when the request is refused.
+ */
+async function authenticateRequest(req: Request, res: Response): Promise<HttpMcpContext | null> {
+  const userToken = extractBearerToken(req.headers.authorization);
+  if (!userToken) {
+    sendAuthChallenge(req, res, 401, 'Missing or invalid Authorization header. Provide a Bearer token.');
+    return null;
   }
 
-  // 1. Find the meeting
-  const meetings = await findMeetingsByName(graphToken, meetingName, meetingDate);
-  if (meetings.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'No meeting found matching "' + meetingName + '"' +
-            (meetingDate ? ' on ' + meetingDate : '') +
-            '. Try broadening your search term or checking the date.',
-        },
-      ],
-    };
+  let claims: AccessTokenClaims;
+  try {
+    claims = await validateAccessToken(userToken);
+  } catch (validationErr: any) {
+    if (!(validationErr instanceof TokenValidationError)) throw validationErr;
+    console.warn('[AUTH] Rejected bearer token: ' + validationErr.message);
+    sendAuthChallenge(req, res, validationErr.status, 'Invalid bearer token: ' + validationErr.message, {
+      code: validationErr.error,
+      description: validationErr.message,
+      scope: validationErr.scope,
+    });
+    return null;
   }
 
-  const meeting = meetings[0];
-
-  // 2. Get the transcript
-  const transcripts = await listTranscripts(graphToken, meeting.id);
-  if (transcripts.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text' as const,
-          text: 'Meeting "' + meeting.subject + '" was found but has no transcript available.',
-        },
-      ],
-    };
+  const appMode = isAppPermissionMode();
+  if (appMode) {
+    const denied = checkAppModeAccess(claims);
+    if (denied) {
+      console.warn('[AUTH] Application-permission mode refused ' + describeCaller(claims) + ': ' + denied);
+      res.status(403).json({
+        jsonrpc: '2.0',
+        error: { code: -32600, message: 'Access denied: ' + denied },
+        id: null,
+      });
+      return null;
+    }
   }
 
-  const rawVtt = await getTranscriptContent(graphToken, meeting.id, transcripts[0].id);
-  const cleanText = cleanVttTranscript(rawVtt);
-
-  // 3. Build the Markdown file content
-  const meetingDateStr = meeting.startDateTime.split('T')[0];
-  const mdContent =
-    '# ' + meeting.subject + '\n\n' +
-    '**Date:** ' + meeting.startDateTime + '\n\n' +
-    '**Meeting ID:** ' + meeting.id + '\n\n' +
-    '---\n\n' +
-    cleanText;
-
-  // 4. Generate filename: sanitise subject, add date
-  const safeSubject = meeting.subject
-    .replace(/[^a-zA-Z0-9\s-]/g, '')
-    .replace(/\s+/g, '_')
-    .substring(0, 80);
-  const fileName = `${safeSubject}_${meetingDateStr}.md`;
-
-  // 5. Resolve SharePoint site and upload
-  const siteId = await resolveSiteId(graphToken, siteUrl);
-  const webUrl = await uploadToSharePoint(graphToken, siteId, folderPath, fileName, mdContent);
-
-  const header = 'Meeting: ' + meeting.subject + '\nDate: ' + meeting.startDateTime + '\n';
-  const summary =
-    '\n---\n\n' +
-    '**Saved to SharePoint:** ' + webUrl + '\n' +
-    '**File:** ' + fileName + '\n' +
-    '**Folder:** ' + folderPath + '\n\n' +
-    '---\n\n';
+  let graphToken: string;
+  try {
+    graphToken = appMode ? await getGraphTokenAppOnly() : await getGraphTokenOBO(userToken);
+  } catch (authErr: any) {
+    console.error('[AUTH] ' + (appMode ? 'Client credentials' : 'OBO') + ' token request failed:', authErr.message);
+    res.status(403).json({
+      jsonrpc: '2.0',
+      error: { code: -32600, message: 'Authentication failed: ' + authErr.message },
+      id: null,
+    });
+    return null;
+  }
 
   return {
-    content: [
-      {
-        type: 'text' as const,
-        text: header + summary + cleanText,
-      },
-    ],
+    getGraphToken: async () => graphToken,
+    owner: {
+      homeAccountId: homeAccountIdFor(claims) || describeCaller(claims),
+      name: describeCaller(claims),
+      appMode,
+    },
+    appMode,
   };
 }
 
-// -- Express App -------------------------------------------------------------
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
 
-const app = express();
-app.use(express.json());
+const sessions = new MemorySessionStore<HttpMcpContext>();
 
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', service: 'transcripts-mcp-server' });
-});
+/**
+ * Find the session named by the Mcp-Session-Id header and refresh its
+ * context with this request's credentials. Sends a 400/404 and returns
+ * null if there is no usable session.
+ */
+function resumeSession(req: Request, res: Response, context: HttpMcpContext): McpSession<HttpMcpContext> | null {
+  const sessionId = req.get('mcp-session-id');
+  if (!sessionId) {
+    sendJsonRpcError(res, 400, -32000, 'Missing Mcp-Session-Id header. Send an initialize request first.');
+    return null;
+  }
 
-// -- MCP Endpoint ------------------------------------------------------------
+  // A session belongs to the user who created it; anyone else sees "not found"
+  const session = sessions.get(sessionId);
+  if (!session || session.ownerId !== context.owner.homeAccountId) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found. Start a new session with an initialize request.');
+    return null;
+  }
+
+  Object.assign(session.context, context);
+  return session;
+}
 
 app.post('/mcp', async (req: Request, res: Response) => {
   try {
-    const userToken = extractBearerToken(req.headers.authorization);
-    if (!userToken) {
-      res.status(401).json({
-        jsonrpc: '2.0',
-        error: { code: -32600, message: 'Missing or invalid Authorization header. Provide a Bearer token.' },
-        id: null,
+    const context = await authenticateRequest(req, res);
+    if (!context) return;
+
+    if (!isStatefulMode()) {
+      // Stateless: a fresh server and transport for this request only
+      const server = createMcpServer(context);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
       });
-      return;
-    }
 
-    let graphToken: string;
-    try {
-      graphToken = await getGraphTokenOBO(userToken);
-    } catch (authErr: any) {
-      console.error('[AUTH] OBO token exchange failed:', authErr.message);
-      res.status(403).json({
-        jsonrpc: '2.0',
-        error: { code: -32600, message: 'Authentication failed: ' + authErr.message },
-        id: null,
+      res.on('close', () => {
+        transport.close();
+        server.close();
       });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
       return;
     }
 
-    const server = new Server(
-      { name: 'transcripts-mcp-server', version: '1.0.0' },
-      { capabilities: { tools: {} } }
-    );
-
-    server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: TOOLS,
-    }));
-
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      const toolArgs = (args ?? {}) as Record<string, unknown>;
-
-      try {
-        switch (name) {
-          case 'list_recent_meetings':
-            return await handleListRecentMeetings(graphToken, toolArgs);
-          case 'get_meeting_transcript':
-            return await handleGetMeetingTranscript(graphToken, toolArgs);
-          case 'save_transcript':
-            return await handleSaveTranscript(graphToken, toolArgs);
-          default:
-            return {
-              content: [{ type: 'text' as const, text: 'Unknown tool: ' + name }],
-              isError: true,
-            };
-        }
-      } catch (err: any) {
-        return {
-          content: [{ type: 'text' as const, text: 'Error: ' + err.message }],
-          isError: true,
-        };
-      }
-    });
+    if (req.get('mcp-session-id')) {
+      const session = resumeSession(req, res, context);
+      if (!session) return;
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
 
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
+    if (!isInitializeRequest(req.body)) {
+      sendJsonRpcError(res, 400, -32000, 'Missing Mcp-Session-Id header. Send an initialize request first.');
+      return;
+    }
 
-    res.on('close', () => {
-      transport.close();
-      server.close();
+    const server = createMcpServer(context);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set({
+          id: sessionId,
+          server,
+          transport,
+          ownerId: context.owner.homeAccountId,
+          context,
+          lastSeen: Date.now(),
+        });
+        console.log('[MCP] Session ' + sessionId + ' started for ' + context.owner.name);
+      },
+      onsessionclosed: (sessionId) => {
+        sessions.delete(sessionId);
+        console.log('[MCP] Session ' + sessionId + ' ended');
+      },
     });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
 
     await server.connect(transport);
     await transport.handleRequest(req, res, req.body);
   } catch (error: any) {
     console.error('[MCP] Unhandled error:', error);
     if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: { code: -32603, message: 'Internal server error' },
-        id: null,
-      });
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
     }
   }
 });
 
-app.get('/mcp', (_req: Request, res: Response) => {
-  res.status(405).json({
-    jsonrpc: '2.0',
-    error: { code: -32000, message: 'Method not allowed. Use POST.' },
-    id: null,
-  });
-});
+/**
+ * GET opens the session's SSE stream for server-initiated messages;
+ * DELETE ends the session. Both need session mode.
+ */
+async function handleSessionRequest(req: Request, res: Response): Promise<void> {
+  if (!isStatefulMode()) {
+    sendJsonRpcError(res, 405, -32000, req.method === 'GET'
+      ? 'Method not allowed. Use POST.'
+      : 'Method not allowed. Sessions not supported.');
+    return;
+  }
 
-app.delete('/mcp', (_req: Request, res: Response) => {
-  res.status(405).json({
-    jsonrpc: '2.0',
-    error: { code: -32000, message: 'Method not allowed. Sessions not supported.' },
-    id: null,
-  });
-});
+  try {
+    const context = await authenticateRequest(req, res);
+    if (!context) return;
+
+    const session = resumeSession(req, res, context);
+    if (!session) return;
+    await session.transport.handleRequest(req, res);
+  } catch (error: any) {
+    console.error('[MCP] Unhandled error:', error);
+    if (!res.headersSent) {
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    }
+  }
+}
+
+app.get('/mcp', handleSessionRequest);
+app.delete('/mcp', handleSessionRequest);
 
 const PORT = parseInt(process.env.PORT || '8080', 10);
 
 app.listen(PORT, () => {
   console.log('[MCP] Transcripts MCP Server running on port ' + PORT);
-  console.log('[MCP] Endpoint: POST /mcp');
+  console.log('[MCP] Endpoint: POST /mcp' + (isStatefulMode() ? ' (sessions: GET/DELETE /mcp)' : ''));
   console.log('[MCP] Health:   GET /health');
+  console.log('[MCP] Auth:     GET ' + RESOURCE_METADATA_PATH);
+  console.log('[MCP] Graph:    POST /notifications');
+
+  startWebhooks({
+    autoSave: (graphToken, kind, args) => kind === 'transcripts'
+      ? handleSaveTranscript(graphToken, args, { autoSave: true })
+      : handleGetMeetingRecording(graphToken, { ...args, save: true }, { autoSave: true }),
+  }).catch((err) => console.error('[webhook] Startup failed:', err.message));
 });
@@ -0,0 +1,124 @@
+/**
+ * MCP Session Store
+ *
+ * Optional stateful Streamable HTTP mode (MCP_SESSION_MODE=stateful).
+ * The initialize request creates a session: one MCP Server and transport
+ * kept alive across requests, identified by the Mcp-Session-Id header.
+ * Clients can then open an SSE stream with GET /mcp and end the session
+ * with DELETE /mcp.
+ *
+ * Sessions hold live transport objects, so they are local to the
+ * replica that created them — enable session affinity (sticky sessions)
+ * when running more than one replica. Idle sessions are closed after
+ * MCP_SESSION_IDLE_MINUTES.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+// ── Configuration ───────────────────────────────────────────────────
+const MCP_SESSION_MODE = (process.env.MCP_SESSION_MODE || 'stateless').toLowerCase();
+const MCP_SESSION_IDLE_MINUTES = parseInt(process.env.MCP_SESSION_IDLE_MINUTES || '30', 10);
+const MCP_MAX_SESSIONS = parseInt(process.env.MCP_MAX_SESSIONS || '1000', 10);
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * A live MCP session. `context` is whatever per-caller state the
+ * server's handlers read (e.g. the current Graph token), refreshed on
+ * every request.
+ */
+export interface McpSession<C> {
+  id: string;
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Identity of the user who created the session; other users are refused */
+  ownerId: string;
+  context: C;
+  lastSeen: number;
+}
+
+/**
+ * Where sessions are kept. Sessions contain live connections, so any
+ * implementation must keep them in this process.
+ */
+export interface SessionStore<C> {
+  get(id: string): McpSession<C> | undefined;
+  set(session: McpSession<C>): void;
+  delete(id: string): void;
+  readonly size: number;
+}
+
+// ── Implementation ──────────────────────────────────────────────────
+
+/**
+ * In-memory session store that closes sessions after an idle timeout,
+ * and the least recently used one when MCP_MAX_SESSIONS is reached.
+ */
+export class MemorySessionStore<C> implements SessionStore<C> {
+  private readonly sessions = new Map<string, McpSession<C>>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly idleMs = MCP_SESSION_IDLE_MINUTES * 60 * 1000,
+    private readonly maxSessions = MCP_MAX_SESSIONS
+  ) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(id: string): McpSession<C> | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastSeen = Date.now();
+      // Re-insert so the Map's insertion order tracks recency
+      this.sessions.delete(id);
+      this.sessions.set(id, session);
+    }
+    return session;
+  }
+
+  set(session: McpSession<C>): void {
+    this.sessions.set(session.id, session);
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.values().next().value as McpSession<C>;
+      console.log(`[MCP] Session limit reached — closing least recently used session ${oldest.id}`);
+      this.close(oldest);
+    }
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+      this.sweepTimer.unref();
+    }
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  private sweep(): void {
+    const cutoff = Date.now() - this.idleMs;
+    for (const session of [...this.sessions.values()]) {
+      if (session.lastSeen < cutoff) {
+        console.log(`[MCP] Closing idle session ${session.id}`);
+        this.close(session);
+      }
+    }
+  }
+
+  private close(session: McpSession<C>): void {
+    this.sessions.delete(session.id);
+    session.transport.close().catch(() => undefined);
+    session.server.close().catch(() => undefined);
+  }
+}
+
+/**
+ * True when the server keeps MCP sessions (MCP_SESSION_MODE=stateful).
+ */
+export function isStatefulMode(): boolean {
+  return MCP_SESSION_MODE === 'stateful';
+}
@@ -0,0 +1,212 @@
+/**
+ * Speaker Aliases & Anonymisation
+ *
+ * Rewrites the speaker names that come from the VTT `<v Name>` tags,
+ * after parsing and before rendering, so returned text, saved files and
+ * per-speaker statistics all see the same names.
+ *
+ * Aliases map display-name variants to one name, e.g.
+ *   { "Smith, John": "John Smith", "Jane Doe": "Interviewer" }
+ * Names are compared after normalisation (case, spacing, a trailing
+ * "(Organisation)" or "[Guest]" suffix, and "Last, First" order), so one
+ * entry for "John Smith" also covers "Smith, John" and
+ * "John Smith (Contoso)". Organisation-wide aliases can be kept in the
+ * JSON file named in SPEAKER_ALIASES_FILE; aliases passed with a call
+ * take precedence.
+ *
+ * Anonymisation replaces every speaker without an alias with
+ * "Participant N", numbered in order of first appearance (variants of
+ * one name share a number), so alias values act as chosen pseudonyms
+ * such as "Interviewer". It also replaces the real names of renamed
+ * speakers where they are mentioned in the text (full name, or the
+ * first or last name alone). This is best-effort: only speakers' names
+ * are known, so people who are mentioned but never speak are not
+ * replaced, and a first or last name alone is only replaced when one
+ * speaker has it and it is not also an everyday word ("Will", "May").
+ */
+
+import { readFileSync } from 'node:fs';
+import { VttCue } from './vtt-parser';
+
+// ── Configuration ───────────────────────────────────────────────────
+const SPEAKER_ALIASES_FILE = process.env.SPEAKER_ALIASES_FILE || '';
+
+const PARTICIPANT_LABEL = 'Participant';
+
+/**
+ * Name parts that are also everyday words, so "Will" at the start of a
+ * sentence is not taken for Will Jones. Only full names replace these.
+ */
+const WORD_NAMES = new Set([
+  'april', 'art', 'august', 'bill', 'brown', 'chase', 'dawn', 'drew', 'faith', 'frank',
+  'grace', 'green', 'guy', 'hope', 'hunter', 'jack', 'joy', 'june', 'king', 'lane', 'long', 'mark',
+  'max', 'may', 'miles', 'page', 'pat', 'ray', 'rich', 'rose', 'sage', 'summer', 'sue', 'will', 'young',
+]);
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface SpeakerOptions {
+  /** Display-name variant → name to show instead */
+  aliases?: Record<string, string>;
+  /** Replace unaliased speakers with "Participant N" and real names in the text */
+  anonymise?: boolean;
+}
+
+// ── Name Normalisation ──────────────────────────────────────────────
+
+/**
+ * A display name without its organisation suffix and in "First Last"
+ * order: "Smith, John (Contoso)" becomes "John Smith".
+ */
+function plainName(name: string): string {
+  const base = name.replace(/\s*[([][^)\]]*[)\]]\s*$/, '').trim();
+  const comma = base.match(/^([^,]+),\s*([^,]+)$/);
+  return comma ? comma[2].trim() + ' ' + comma[1].trim() : base;
+}
+
+/**
+ * Comparison key for a display name: "Smith, John (Contoso)" and
+ * "john  smith" both become "john smith".
+ */
+export function speakerKey(name: string): string {
+  return plainName(name).toLowerCase().replace(/\s+/g, ' ');
+}
+
+let fileAliases: Map<string, string> | null = null;
+
+/**
+ * Aliases from SPEAKER_ALIASES_FILE, loaded on first use. A missing or
+ * unreadable file is logged and treated as empty.
+ */
+function getFileAliases(): Map<string, string> {
+  if (fileAliases) return fileAliases;
+  fileAliases = new Map();
+  if (!SPEAKER_ALIASES_FILE) return fileAliases;
+
+  try {
+    const config = JSON.parse(readFileSync(SPEAKER_ALIASES_FILE, 'utf8'));
+    for (const [variant, name] of Object.entries(config ?? {})) {
+      if (typeof name === 'string' && name.trim()) fileAliases.set(speakerKey(variant), name.trim());
+    }
+    console.log(`[speakers] Loaded ${fileAliases.size} speaker alias(es) from ${SPEAKER_ALIASES_FILE}`);
+  } catch (err: any) {
+    console.error(`[speakers] Could not load ${SPEAKER_ALIASES_FILE}: ${err.message}`);
+  }
+  return fileAliases;
+}
+
+// ── Speaker Mapper ──────────────────────────────────────────────────
+
+/**
+ * Renames speakers for one tool call. Keep one mapper for all the
+ * transcripts of a call, so "Participant N" numbering stays the same
+ * across them.
+ */
+export class SpeakerMapper {
+  private readonly aliases: Map<string, string>;
+  private readonly anonymise: boolean;
+  /** Original display name → name shown */
+  private readonly names = new Map<string, string>();
+  /** Normalised name → "Participant N", so variants of one name share a number */
+  private readonly participants = new Map<string, string>();
+
+  constructor(options: SpeakerOptions) {
+    this.aliases = new Map(getFileAliases());
+    for (const [variant, name] of Object.entries(options.aliases ?? {})) {
+      if (name.trim()) this.aliases.set(speakerKey(variant), name.trim());
+    }
+    this.anonymise = options.anonymise ?? false;
+  }
+
+  /**
+   * Rename the speakers of a list of cues and, when anonymising, the
+   * speakers' real names in the cue text. Cues without a speaker are
+   * left as they are.
+   */
+  mapCues(cues: VttCue[]): VttCue[] {
+    // Name every speaker first, so names mentioned before someone first speaks are replaced too
+    for (const cue of cues) {
+      if (cue.speaker) this.mapName(cue.speaker);
+    }
+    const mentions = this.anonymise ? this.mentionPattern() : null;
+
+    return cues.map((cue) => ({
+      ...cue,
+      speaker: cue.speaker ? this.mapName(cue.speaker) : cue.speaker,
+      text: mentions
+        ? cue.text.replace(mentions.regex, (match) => mentions.replacements.get(match.replace(/\s+/g, ' ')) ?? match)
+        : cue.text,
+    }));
+  }
+
+  /**
+   * The name shown for a speaker.
+   */
+  mapName(speaker: string): string {
+    let name = this.names.get(speaker);
+    if (name === undefined) {
+      const key = speakerKey(speaker);
+      name = this.aliases.get(key);
+      if (name === undefined && this.anonymise) {
+        name = this.participants.get(key) ?? PARTICIPANT_LABEL + ' ' + (this.participants.size + 1);
+        this.participants.set(key, name);
+      }
+      name ??= speaker;
+      this.names.set(speaker, name);
+    }
+    return name;
+  }
+
+  /**
+   * Summary for response headers, e.g. "anonymised (4 speakers)" or
+   * "2 aliases applied". Never includes real names.
+   */
+  describe(): string {
+    const renamed = [...this.names].filter(([from, to]) => from !== to).length;
+    if (this.anonymise) {
+      const shown = new Set(this.names.values()).size;
+      return 'anonymised (' + shown + ' speaker' + (shown === 1 ? '' : 's') + ')';
+    }
+    return renamed + ' alias' + (renamed === 1 ? '' : 'es') + ' applied';
+  }
+
+  /**
+   * One regex for every real name of a renamed speaker: the display name,
+   * its "First Last" form and each part of it that stands for that
+   * speaker alone and is not in WORD_NAMES. Longer forms are tried
+   * first, so "John Smith" becomes one pseudonym rather than two.
+   */
+  private mentionPattern(): { regex: RegExp; replacements: Map<string, string> } | null {
+    const replacements = new Map<string, string>();
+    const add = (form: string, name: string) => {
+      if (form.length >= 2 && !replacements.has(form)) replacements.set(form, name);
+    };
+
+    // Name part → the pseudonyms of the speakers who have it
+    const parts = new Map<string, Set<string>>();
+    for (const [speaker, name] of this.names) {
+      if (speaker === name) continue;
+      const full = plainName(speaker);
+      add(speaker, name);
+      add(full, name);
+      for (const part of full.split(/\s+/)) {
+        const word = part.replace(/[.,]+$/, '');
+        if (/^\p{Lu}/u.test(word) && !WORD_NAMES.has(word.toLowerCase())) {
+          parts.set(word, (parts.get(word) ?? new Set<string>()).add(name));
+        }
+      }
+    }
+    for (const [part, names] of parts) {
+      if (names.size === 1) add(part, [...names][0]);
+    }
+    if (replacements.size === 0) return null;
+
+    const alternatives = [...replacements.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map((form) => form.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+    return {
+      regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu'),
+      replacements: new Map([...replacements].map(([form, name]) => [form.replace(/\s+/g, ' '), name])),
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Transcripts MCP Server — stdio Entry Point
+ *
+ * Runs the same tools and resources as the HTTP server (mcp-server.ts)
+ * for desktop MCP clients that launch the server as a subprocess and
+ * talk JSON-RPC over stdin/stdout.
+ *
+ * Auth: the user signs in with a device code (or the system browser,
+ *       STDIO_AUTH_FLOW=interactive) on the first tool call; the token
+ *       cache is persisted in STDIO_TOKEN_CACHE_DIR (desktop-auth.ts).
+ *
+ * Webhook subscription tools are not offered: Graph needs a public
+ * HTTPS endpoint to deliver notifications to.
+ */
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+
+import { getDesktopGraphToken, getDesktopUsername } from './desktop-auth';
+import { createMcpServer } from './mcp-server';
+
+// stdout carries the protocol, so every log line goes to stderr
+console.log = console.error;
+
+async function main(): Promise<void> {
+  const server = createMcpServer({
+    getGraphToken: getDesktopGraphToken,
+    owner: null,
+    appMode: false,
+  });
+
+  await server.connect(new StdioServerTransport());
+
+  const username = await getDesktopUsername();
+  console.error('[MCP] Transcripts MCP Server running on stdio');
+  console.error('[MCP] ' + (username
+    ? 'Signed in as ' + username
+    : 'Not signed in yet — the first tool call starts sign-in'));
+}
+
+main().catch((err) => {
+  console.error('[MCP] Startup failed:', err);
+  process.exit(1);
+});
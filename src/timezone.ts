@@ -0,0 +1,101 @@
+/**
+ * Time Zone Utilities
+ *
+ * Converts calendar days in an IANA time zone (e.g. "Australia/Sydney")
+ * to UTC instants for Graph queries, and formats Graph's UTC timestamps
+ * back into the caller's zone for display. Uses the built-in Intl API,
+ * so no time zone database dependency is needed.
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * True if the string is a time zone Intl recognises (IANA names and "UTC").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True if the string is a calendar date in YYYY-MM-DD form.
+ */
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Wall-clock fields of an instant as seen in a time zone.
+ */
+function zonedParts(instant: Date, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const fields: Record<string, number> = {};
+  for (const p of parts) {
+    if (p.type !== 'literal') fields[p.type] = Number(p.value);
+  }
+  return fields;
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds.
+ */
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const f = zonedParts(instant, timeZone);
+  const asUtc = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * UTC instant (ISO string) of midnight at the start of a calendar day
+ * in the given time zone.
+ */
+export function zonedDayStart(date: string, timeZone: string): string {
+  const wallClock = Date.parse(`${date}T00:00:00Z`);
+  // Two passes so days that start on a DST transition land correctly
+  let utc = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  utc = wallClock - zoneOffsetMs(new Date(utc), timeZone);
+  return new Date(utc).toISOString();
+}
+
+/**
+ * UTC instant (ISO string) of the last second of a calendar day in the
+ * given time zone (inclusive end of the day).
+ */
+export function zonedDayEnd(date: string, timeZone: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  const nextStart = Date.parse(zonedDayStart(next.toISOString().split('T')[0], timeZone));
+  return new Date(nextStart - 1000).toISOString();
+}
+
+/**
+ * Format a Graph timestamp for display. Without a time zone the value is
+ * returned unchanged (UTC ISO, as Graph sent it); with one it becomes
+ * "YYYY-MM-DD HH:mm (Zone)".
+ */
+export function formatDateTime(isoDateTime: string, timeZone?: string): string {
+  if (!timeZone) return isoDateTime;
+
+  // Graph omits the zone designator on some UTC values
+  const normalised = /(Z|[+-]\d{2}:\d{2})$/i.test(isoDateTime) ? isoDateTime : `${isoDateTime}Z`;
+  const instant = new Date(normalised);
+  if (isNaN(instant.getTime())) return isoDateTime;
+
+  const f = zonedParts(instant, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${f.year}-${pad(f.month)}-${pad(f.day)} ${pad(f.hour)}:${pad(f.minute)} (${timeZone})`;
+}
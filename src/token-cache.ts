@@ -0,0 +1,146 @@
+/**
+ * Token Cache Stores
+ *
+ * Persistence for MSAL's serialized token cache, plugged in through
+ * MSAL's DistributedCachePlugin. Each user gets their own partition so
+ * one replica's OBO results (access and refresh tokens) can be reused
+ * by every other replica sharing the same store.
+ *
+ * Two stores ship with the server:
+ *  - memory: a bounded in-process map (default; per replica)
+ *  - file:   one JSON file per partition in TOKEN_CACHE_DIR, e.g. an
+ *            Azure Files share mounted into every container replica
+ *
+ * Any other backend (Redis, Cosmos DB, ...) can be used by implementing
+ * TokenCacheStore and passing it to setTokenCacheStore().
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ICacheClient } from '@azure/msal-node';
+
+// ── Configuration ───────────────────────────────────────────────────
+const TOKEN_CACHE_STORE = (process.env.TOKEN_CACHE_STORE || 'memory').toLowerCase();
+const TOKEN_CACHE_DIR = process.env.TOKEN_CACHE_DIR || '';
+const TOKEN_CACHE_MAX_ENTRIES = parseInt(process.env.TOKEN_CACHE_MAX_ENTRIES || '1000', 10);
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Key/value store for serialized MSAL cache partitions. Values are
+ * opaque JSON strings; `get` returns an empty string for unknown keys.
+ */
+export interface TokenCacheStore extends ICacheClient {
+  get(key: string): Promise<string>;
+  set(key: string, value: string): Promise<string>;
+}
+
+// ── Stores ──────────────────────────────────────────────────────────
+
+/**
+ * In-process store. Oldest partitions are evicted once `maxEntries`
+ * is reached.
+ */
+export class MemoryCacheStore implements TokenCacheStore {
+  private readonly entries = new Map<string, string>();
+
+  constructor(private readonly maxEntries = TOKEN_CACHE_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<string> {
+    return this.entries.get(key) ?? '';
+  }
+
+  async set(key: string, value: string): Promise<string> {
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return value;
+  }
+}
+
+/**
+ * File-backed store: one file per partition, named by a hash of the
+ * key. Writes go through a temp file and rename so concurrent readers
+ * on other replicas never see a partial file.
+ */
+export class FileCacheStore implements TokenCacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<string> {
+    try {
+      return await fs.readFile(this.fileFor(key), 'utf8');
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        console.warn(`[AUTH] Token cache read failed (${err.code || err.message}) — continuing without cache`);
+      }
+      return '';
+    }
+  }
+
+  async set(key: string, value: string): Promise<string> {
+    const target = this.fileFor(key);
+    const temp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+      await fs.writeFile(temp, value, { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(temp, target);
+    } catch (err: any) {
+      console.warn(`[AUTH] Token cache write failed (${err.code || err.message})`);
+      await fs.unlink(temp).catch(() => undefined);
+    }
+    return value;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${hashKey(key)}.json`);
+  }
+}
+
+// ── Store Selection ─────────────────────────────────────────────────
+
+let store: TokenCacheStore | null = null;
+
+/**
+ * The store selected by TOKEN_CACHE_STORE, created on first use.
+ */
+export function getTokenCacheStore(): TokenCacheStore {
+  if (!store) {
+    store = createConfiguredStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the token cache store, e.g. with a Redis-backed implementation.
+ * Call before the server starts handling requests.
+ */
+export function setTokenCacheStore(custom: TokenCacheStore): void {
+  store = custom;
+}
+
+function createConfiguredStore(): TokenCacheStore {
+  if (TOKEN_CACHE_STORE === 'file') {
+    if (!TOKEN_CACHE_DIR) {
+      console.warn('[AUTH] TOKEN_CACHE_STORE=file but TOKEN_CACHE_DIR is not set — using in-memory token cache');
+      return new MemoryCacheStore();
+    }
+    console.log(`[AUTH] Using file token cache in ${TOKEN_CACHE_DIR}`);
+    return new FileCacheStore(TOKEN_CACHE_DIR);
+  }
+  if (TOKEN_CACHE_STORE !== 'memory') {
+    console.warn(`[AUTH] Unknown TOKEN_CACHE_STORE "${TOKEN_CACHE_STORE}" — using in-memory token cache`);
+  }
+  return new MemoryCacheStore();
+}
+
+/**
+ * SHA-256 of a value as hex. Used for cache keys so raw tokens and user
+ * identifiers never appear as map keys or file names.
+ */
+export function hashKey(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
@@ -0,0 +1,285 @@
+/**
+ * Incoming Token Validation
+ *
+ * Verifies the bearer token Copilot Studio (or any MCP client) sends
+ * before it is used as an OBO assertion:
+ *  - RS256 signature against the tenant's published signing keys (JWKS)
+ *  - Audience: our app ID URI (or the bare client ID, for v2 tokens)
+ *  - Issuer: the tenant's v1 or v2 issuer
+ *  - Expiry and not-before, with a small clock skew allowance
+ *  - The delegated scope the API exposes (access_as_user by default)
+ *
+ * Signing keys are fetched from Entra ID once and cached; an unknown
+ * key id triggers a (rate-limited) refresh to pick up key rollover.
+ * The key source is injectable, so tests can sign tokens with a local
+ * key pair and validate them without network access.
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject, verify } from 'node:crypto';
+
+// ── Configuration ───────────────────────────────────────────────────
+const AZURE_CLIENT_ID = process.env.AZURE_CLIENT_ID || '';
+const AZURE_TENANT_ID = process.env.AZURE_TENANT_ID || '';
+const API_AUDIENCE = process.env.API_AUDIENCE || `api://${AZURE_CLIENT_ID}`;
+const REQUIRED_SCOPE = process.env.REQUIRED_SCOPE || 'access_as_user';
+
+const JWKS_URI = `https://login.microsoftonline.com/${AZURE_TENANT_ID}/discovery/v2.0/keys`;
+const JWKS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const JWKS_MIN_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const JWKS_TIMEOUT_MS = 10000;
+const CLOCK_SKEW_SECONDS = 300;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/**
+ * Claims of a validated access token. Only the claims the server reads
+ * are typed; the rest are passed through.
+ */
+export interface AccessTokenClaims {
+  aud: string;
+  iss: string;
+  exp: number;
+  nbf?: number;
+  tid?: string;
+  oid?: string;
+  scp?: string;
+  roles?: string[];
+  groups?: string[];
+  upn?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Supplies the public key for a token's `kid` header, or null if the
+ * key is unknown.
+ */
+export interface SigningKeySource {
+  getSigningKey(kid: string): Promise<KeyObject | null>;
+}
+
+export interface TokenValidationOptions {
+  /** Accepted `aud` values */
+  audiences: string[];
+  /** Accepted `iss` values */
+  issuers: string[];
+  /** Scope that must appear in the space-separated `scp` claim */
+  requiredScope: string;
+  keySource: SigningKeySource;
+}
+
+/**
+ * A bearer token that failed validation. `error` is the RFC 6750 error
+ * code for the WWW-Authenticate challenge: "invalid_token" maps to 401,
+ * "insufficient_scope" to 403.
+ */
+export class TokenValidationError extends Error {
+  readonly error: 'invalid_token' | 'insufficient_scope';
+  /** The scope that was required, for insufficient_scope errors */
+  readonly scope?: string;
+
+  constructor(error: 'invalid_token' | 'insufficient_scope', message: string, scope?: string) {
+    super(message);
+    this.name = 'TokenValidationError';
+    this.error = error;
+    this.scope = scope;
+  }
+
+  get status(): number {
+    return this.error === 'insufficient_scope' ? 403 : 401;
+  }
+}
+
+// ── Key Sources ─────────────────────────────────────────────────────
+
+/**
+ * Signing keys from a JWKS endpoint, cached for a day. A `kid` that is
+ * not in the cache forces a refresh, at most once every five minutes.
+ */
+export class JwksKeySource implements SigningKeySource {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(private readonly jwksUri: string) {}
+
+  async getSigningKey(kid: string): Promise<KeyObject | null> {
+    const age = Date.now() - this.fetchedAt;
+    if (age > JWKS_CACHE_TTL_MS || (!this.keys.has(kid) && age > JWKS_MIN_REFRESH_INTERVAL_MS)) {
+      await this.refresh();
+    }
+    return this.keys.get(kid) ?? null;
+  }
+
+  private refresh(): Promise<void> {
+    // Concurrent requests share one in-flight fetch
+    if (!this.refreshing) {
+      this.refreshing = this.fetchKeys().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const res = await fetch(this.jwksUri, { signal: AbortSignal.timeout(JWKS_TIMEOUT_MS) });
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+      const body = (await res.json()) as { keys?: Array<JsonWebKey & { kid?: string }> };
+      this.keys = keysFromJwks(body.keys || []);
+      this.fetchedAt = Date.now();
+      console.log(`[AUTH] Loaded ${this.keys.size} signing keys from JWKS`);
+    } catch (err: any) {
+      // Keep serving the previous keys; retry after the minimum interval
+      console.error(`[AUTH] JWKS fetch failed: ${err.message}`);
+      this.fetchedAt = Math.max(this.fetchedAt, Date.now() - JWKS_CACHE_TTL_MS + JWKS_MIN_REFRESH_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * A fixed set of signing keys, e.g. a locally generated key pair for
+ * offline testing.
+ */
+export class StaticKeySource implements SigningKeySource {
+  private readonly keys: Map<string, KeyObject>;
+
+  constructor(keys: Record<string, KeyObject> | Array<JsonWebKey & { kid?: string }>) {
+    this.keys = Array.isArray(keys) ? keysFromJwks(keys) : new Map(Object.entries(keys));
+  }
+
+  async getSigningKey(kid: string): Promise<KeyObject | null> {
+    return this.keys.get(kid) ?? null;
+  }
+}
+
+function keysFromJwks(jwks: Array<JsonWebKey & { kid?: string }>): Map<string, KeyObject> {
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of jwks) {
+    if (!jwk.kid || jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig')) continue;
+    try {
+      keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    } catch {
+      console.warn(`[AUTH] Skipping unusable JWKS key ${jwk.kid}`);
+    }
+  }
+  return keys;
+}
+
+// ── Default Validation Settings ─────────────────────────────────────
+
+let keySource: SigningKeySource = new JwksKeySource(JWKS_URI);
+
+/**
+ * Replace the signing key source used by validateAccessToken(), e.g.
+ * with a StaticKeySource for offline tests.
+ */
+export function setSigningKeySource(source: SigningKeySource): void {
+  keySource = source;
+}
+
+/**
+ * Validation settings derived from the environment: our app ID URI and
+ * client ID as audiences, the tenant's v1 and v2 issuers.
+ */
+export function defaultValidationOptions(): TokenValidationOptions {
+  return {
+    audiences: [API_AUDIENCE, AZURE_CLIENT_ID].filter(Boolean),
+    issuers: [
+      `https://login.microsoftonline.com/${AZURE_TENANT_ID}/v2.0`,
+      `https://sts.windows.net/${AZURE_TENANT_ID}/`,
+    ],
+    requiredScope: REQUIRED_SCOPE,
+    keySource,
+  };
+}
+
+// ── Protected Resource Metadata ─────────────────────────────────────
+
+/**
+ * OAuth 2.0 Protected Resource Metadata (RFC 9728) for this server:
+ * which authorization server issues tokens for it and which scopes to
+ * request. MCP clients read it to run the sign-in flow themselves.
+ */
+export function getProtectedResourceMetadata(): Record<string, unknown> {
+  return {
+    resource: API_AUDIENCE,
+    authorization_servers: [`https://login.microsoftonline.com/${AZURE_TENANT_ID}/v2.0`],
+    scopes_supported: [`${API_AUDIENCE}/${REQUIRED_SCOPE}`],
+    bearer_methods_supported: ['header'],
+    resource_name: 'Transcripts MCP Server',
+  };
+}
+
+// ── Validation ──────────────────────────────────────────────────────
+
+/**
+ * Validate an incoming bearer token and return its claims.
+ *
+ * @throws TokenValidationError describing the first check that failed
+ */
+export async function validateAccessToken(
+  token: string,
+  options: TokenValidationOptions = defaultValidationOptions()
+): Promise<AccessTokenClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new TokenValidationError('invalid_token', 'Token is not a JWT');
+  }
+
+  const header = decodeSegment(parts[0]) as { alg?: string; kid?: string } | null;
+  const claims = decodeSegment(parts[1]) as AccessTokenClaims | null;
+  if (!header || !claims) {
+    throw new TokenValidationError('invalid_token', 'Token is malformed');
+  }
+
+  if (header.alg !== 'RS256') {
+    throw new TokenValidationError('invalid_token', `Unsupported signing algorithm: ${header.alg}`);
+  }
+  if (!header.kid) {
+    throw new TokenValidationError('invalid_token', 'Token has no key id');
+  }
+
+  const key = await options.keySource.getSigningKey(header.kid);
+  if (!key) {
+    throw new TokenValidationError('invalid_token', 'Token signing key is not recognised');
+  }
+  const signed = Buffer.from(`${parts[0]}.${parts[1]}`);
+  if (!verify('RSA-SHA256', signed, key, Buffer.from(parts[2], 'base64url'))) {
+    throw new TokenValidationError('invalid_token', 'Token signature is invalid');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new TokenValidationError('invalid_token', 'Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new TokenValidationError('invalid_token', 'Token is not yet valid');
+  }
+  if (!options.audiences.includes(claims.aud)) {
+    throw new TokenValidationError('invalid_token', `Token audience ${claims.aud} is not accepted`);
+  }
+  if (!options.issuers.includes(claims.iss)) {
+    throw new TokenValidationError('invalid_token', `Token issuer ${claims.iss} is not accepted`);
+  }
+
+  const scopes = (claims.scp || '').split(' ');
+  if (!scopes.includes(options.requiredScope)) {
+    throw new TokenValidationError(
+      'insufficient_scope', `Token is missing the ${options.requiredScope} scope`, options.requiredScope
+    );
+  }
+
+  return claims;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
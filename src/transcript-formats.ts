@@ -0,0 +1,278 @@
+/**
+ * Transcript Export Formats
+ *
+ * Renders a meeting's parsed (and, if requested, renamed and redacted)
+ * cues as a file for save_transcript:
+ *  - md:   Markdown with a metadata header and speaker dialogue (default)
+ *  - txt:  the same as plain text
+ *  - srt:  SubRip captions
+ *  - vtt:  WebVTT captions with <v Speaker> voice tags
+ *  - json: meeting metadata and every cue with speaker and timings
+ *  - html: a self-contained page (inline styles, no external assets)
+ *
+ * Caption formats are rebuilt from the cues rather than copied from the
+ * Graph download, so speaker renaming, redaction and filler removal
+ * apply to them too. Paragraph options only affect the dialogue formats
+ * (md, txt, html).
+ *
+ * When a meeting has several transcripts, caption times of the later
+ * ones are shifted by the time between their creation and the first
+ * transcript's, so the cues stay in order on one timeline.
+ */
+
+import { formatDateTime } from './timezone';
+import {
+  CleaningOptions,
+  formatCleanCues,
+  formatTimestamp,
+  groupParagraphs,
+  removeFillers,
+  VttCue,
+} from './vtt-parser';
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type ExportFormat = 'md' | 'txt' | 'srt' | 'vtt' | 'json' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['md', 'txt', 'srt', 'vtt', 'json', 'html'];
+
+/**
+ * Everything a formatter needs: meeting metadata and the cues of each
+ * selected transcript, oldest first.
+ */
+export interface TranscriptDocument {
+  meeting: {
+    id: string;
+    subject: string;
+    startDateTime: string;
+    endDateTime: string;
+    joinWebUrl: string;
+  };
+  transcripts: Array<{ id: string; createdDateTime: string; cues: VttCue[] }>;
+  /** Processing notes shown in the header, e.g. { label: 'Redacted', value: '2 email' } */
+  notes: Array<{ label: string; value: string }>;
+  /** IANA time zone for displayed dates; UTC ISO when omitted */
+  timeZone?: string;
+  /** Filler removal and paragraphing */
+  cleaning?: CleaningOptions;
+}
+
+export interface ExportedFile {
+  content: string;
+  /** Value for the upload's Content-Type header */
+  mimeType: string;
+  /** File name extension, without the dot */
+  extension: string;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Render a transcript document in the given format.
+ */
+export function formatTranscriptFile(format: ExportFormat, doc: TranscriptDocument): ExportedFile {
+  const content = FORMATTERS[format](doc);
+  return { content, mimeType: MIME_TYPES[format], extension: format };
+}
+
+/**
+ * Clean speaker dialogue for all transcripts, with a "## Transcript N of
+ * M" heading before each when there is more than one.
+ */
+export function formatDialogue(doc: TranscriptDocument): string {
+  const total = doc.transcripts.length;
+  return doc.transcripts
+    .map((t, i) => {
+      const text = formatCleanCues(t.cues, doc.cleaning);
+      return total === 1
+        ? text
+        : '## Transcript ' + (i + 1) + ' of ' + total +
+          ' (created ' + formatDateTime(t.createdDateTime, doc.timeZone) + ')\n\n' + text;
+    })
+    .join('\n\n');
+}
+
+// ── Formatters ──────────────────────────────────────────────────────
+
+const FORMATTERS: Record<ExportFormat, (doc: TranscriptDocument) => string> = {
+  md: formatMarkdown,
+  txt: formatText,
+  srt: formatSrt,
+  vtt: formatVtt,
+  json: formatJson,
+  html: formatHtml,
+};
+
+function formatMarkdown(doc: TranscriptDocument): string {
+  return (
+    '# ' + doc.meeting.subject + '\n\n' +
+    '**Date:** ' + formatDateTime(doc.meeting.startDateTime, doc.timeZone) + '\n\n' +
+    '**Meeting ID:** ' + doc.meeting.id + '\n\n' +
+    doc.transcripts.map((t) =>
+      '**Transcript created:** ' + formatDateTime(t.createdDateTime, doc.timeZone) + ' (' + t.id + ')\n\n'
+    ).join('') +
+    doc.notes.map((n) => '**' + n.label + ':** ' + n.value + '\n\n').join('') +
+    '---\n\n' +
+    formatDialogue(doc)
+  );
+}
+
+function formatText(doc: TranscriptDocument): string {
+  const dialogue = formatDialogue(doc).replace(/^## (Transcript \d+ of \d+ .*)$/gm, '[$1]');
+  return (
+    doc.meeting.subject + '\n\n' +
+    'Date: ' + formatDateTime(doc.meeting.startDateTime, doc.timeZone) + '\n' +
+    'Meeting ID: ' + doc.meeting.id + '\n' +
+    doc.transcripts.map((t) =>
+      'Transcript created: ' + formatDateTime(t.createdDateTime, doc.timeZone) + ' (' + t.id + ')\n'
+    ).join('') +
+    doc.notes.map((n) => n.label + ': ' + n.value + '\n').join('') +
+    '\n' + dialogue + '\n'
+  );
+}
+
+function formatSrt(doc: TranscriptDocument): string {
+  return timelineCues(doc)
+    .map((cue, i) =>
+      (i + 1) + '\n' +
+      captionTime(cue.startSeconds, ',') + ' --> ' + captionTime(cue.endSeconds, ',') + '\n' +
+      (cue.speaker ? cue.speaker + ': ' : '') + cue.text + '\n'
+    )
+    .join('\n');
+}
+
+function formatVtt(doc: TranscriptDocument): string {
+  const header = 'WEBVTT\n\nNOTE\n' +
+    (doc.meeting.subject + ' — ' + formatDateTime(doc.meeting.startDateTime, doc.timeZone)).replace(/-->/g, '->') +
+    '\n';
+  const cues = timelineCues(doc).map((cue) =>
+    (cue.id ? cue.id + '\n' : '') +
+    captionTime(cue.startSeconds, '.') + ' --> ' + captionTime(cue.endSeconds, '.') + '\n' +
+    (cue.speaker ? '<v ' + escapeVtt(cue.speaker) + '>' + escapeVtt(cue.text) + '</v>' : escapeVtt(cue.text)) + '\n'
+  );
+  return [header, ...cues].join('\n');
+}
+
+function formatJson(doc: TranscriptDocument): string {
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  const json = {
+    meeting: {
+      id: doc.meeting.id,
+      subject: doc.meeting.subject,
+      startDateTime: doc.meeting.startDateTime,
+      endDateTime: doc.meeting.endDateTime,
+      joinWebUrl: doc.meeting.joinWebUrl,
+    },
+    notes: Object.fromEntries(doc.notes.map((n) => [n.label.toLowerCase(), n.value])),
+    speakers: [...new Set(doc.transcripts.flatMap((t) => t.cues.map((c) => c.speaker).filter((s) => s)))],
+    transcripts: doc.transcripts.map((t) => ({
+      id: t.id,
+      createdDateTime: t.createdDateTime,
+      cues: cleanedCues(doc, t.cues).map((c) => ({
+        id: c.id,
+        start: c.start,
+        end: c.end,
+        startSeconds: round(c.startSeconds),
+        endSeconds: round(c.endSeconds),
+        speaker: c.speaker ?? null,
+        text: c.text,
+      })),
+    })),
+  };
+  return JSON.stringify(json, null, 2);
+}
+
+function formatHtml(doc: TranscriptDocument): string {
+  const meta = [
+    ['Date', formatDateTime(doc.meeting.startDateTime, doc.timeZone)],
+    ['Meeting ID', doc.meeting.id],
+    ...doc.transcripts.map((t) => ['Transcript', formatDateTime(t.createdDateTime, doc.timeZone) + ' (' + t.id + ')']),
+    ...doc.notes.map((n) => [n.label, n.value]),
+  ];
+
+  const sections = doc.transcripts.map((t, i) => {
+    const heading = doc.transcripts.length > 1
+      ? '<h2>Transcript ' + (i + 1) + ' of ' + doc.transcripts.length + ' (created ' +
+        escapeHtml(formatDateTime(t.createdDateTime, doc.timeZone)) + ')</h2>\n'
+      : '';
+    const turns = groupParagraphs(cleanedCues(doc, t.cues), doc.cleaning).map((turn) =>
+      '<p><span class="time">' + formatTimestamp(turn.startSeconds) + '</span> ' +
+      (turn.speaker ? '<strong>' + escapeHtml(turn.speaker) + ':</strong> ' : '') +
+      escapeHtml(turn.text) + '</p>'
+    );
+    return heading + turns.join('\n');
+  });
+
+  return '<!DOCTYPE html>\n' +
+    '<html lang="en">\n<head>\n<meta charset="utf-8">\n' +
+    '<title>' + escapeHtml(doc.meeting.subject) + '</title>\n' +
+    '<style>\n' +
+    'body { font-family: system-ui, sans-serif; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #222; }\n' +
+    'dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; color: #555; }\n' +
+    'dt { font-weight: 600; }\n' +
+    'dd { margin: 0; }\n' +
+    '.time { color: #888; font-family: ui-monospace, monospace; font-size: 0.85em; }\n' +
+    '</style>\n</head>\n<body>\n' +
+    '<h1>' + escapeHtml(doc.meeting.subject) + '</h1>\n' +
+    '<dl>\n' + meta.map(([k, v]) => '<dt>' + escapeHtml(k) + '</dt><dd>' + escapeHtml(v) + '</dd>').join('\n') + '\n</dl>\n' +
+    '<hr>\n' + sections.join('\n') + '\n' +
+    '</body>\n</html>\n';
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * All cues on one timeline: each later transcript is shifted by the time
+ * between its creation and the first transcript's, and never starts
+ * before the previous transcript ends.
+ */
+function timelineCues(doc: TranscriptDocument): VttCue[] {
+  const first = Date.parse(doc.transcripts[0]?.createdDateTime ?? '');
+  const result: VttCue[] = [];
+  let end = 0;
+  for (const [i, t] of doc.transcripts.entries()) {
+    const created = Date.parse(t.createdDateTime);
+    const offset = i === 0 ? 0 : Math.max(end, isNaN(created) || isNaN(first) ? 0 : (created - first) / 1000);
+    for (const cue of cleanedCues(doc, t.cues)) {
+      result.push({ ...cue, startSeconds: cue.startSeconds + offset, endSeconds: cue.endSeconds + offset });
+      end = Math.max(end, cue.endSeconds + offset);
+    }
+  }
+  return result;
+}
+
+/**
+ * A transcript's cues with fillers removed, when that was requested.
+ */
+function cleanedCues(doc: TranscriptDocument, cues: VttCue[]): VttCue[] {
+  return doc.cleaning?.removeFillers ? removeFillers(cues, doc.cleaning.language) : cues;
+}
+
+/**
+ * Caption timestamp "hh:mm:ss.mmm" (WebVTT) or "hh:mm:ss,mmm" (SRT).
+ */
+function captionTime(seconds: number, separator: '.' | ','): string {
+  const ms = Math.round(Math.max(seconds, 0) * 1000) % 1000;
+  return formatTimestamp(Math.round(Math.max(seconds, 0) * 1000 - ms) / 1000) + separator + String(ms).padStart(3, '0');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,210 @@
+/**
+ * Transcript Search
+ *
+ * Keyword and phrase search over parsed VTT cues, used by the
+ * search_transcripts tool.
+ *
+ * Query syntax:
+ *  - Bare words are terms:              pricing Q3
+ *  - Double quotes make a phrase:       "pricing change"
+ *  - A trailing * matches a prefix:     discount*
+ *
+ * Matching is case-insensitive on whole words. Consecutive cues from
+ * the same speaker are searched as one turn, so a phrase split across
+ * cue boundaries is still found. Each matching turn is one hit, scored
+ * by how many distinct query parts it contains (phrases count more than
+ * single terms) plus a small bonus for repeated mentions.
+ */
+
+import { VttCue } from './vtt-parser';
+
+// ── Configuration ───────────────────────────────────────────────────
+const PHRASE_WEIGHT = 3;
+const TERM_WEIGHT = 1;
+const REPEAT_BONUS = 0.25;
+const SNIPPET_CONTEXT_CHARS = 90;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface SearchQuery {
+  /** Multi-word phrases, matched as consecutive words */
+  phrases: string[];
+  /** Single words; a trailing * matches any word with that prefix */
+  terms: string[];
+}
+
+export interface SearchOptions {
+  /** Only search turns by speakers whose name contains this (case-insensitive) */
+  speaker?: string;
+  /** Require every phrase and term in the same turn (default: any) */
+  matchAll?: boolean;
+}
+
+/**
+ * A speaker turn that matched the query.
+ */
+export interface TranscriptHit {
+  speaker?: string;
+  /** Offset of the cue containing the first match, in seconds */
+  startSeconds: number;
+  score: number;
+  /** The query parts found in the turn */
+  matched: string[];
+  /** Text around the first match, with matches in **bold** */
+  snippet: string;
+}
+
+interface Turn {
+  speaker?: string;
+  text: string;
+  /** Start offset of each cue in `text`, with its start time */
+  cueStarts: Array<{ offset: number; seconds: number }>;
+}
+
+// ── Query Parsing ───────────────────────────────────────────────────
+
+/**
+ * Split a query into quoted phrases and bare terms. Duplicates are
+ * dropped; an unterminated quote is treated as a phrase to the end.
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const phrases = new Set<string>();
+  const terms = new Set<string>();
+
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const words = normalise(match[1]);
+      if (words.includes(' ')) phrases.add(words);
+      else if (words) terms.add(words);
+    } else {
+      const word = normalise(match[2]).replace(/\s+/g, ' ');
+      // Keep a trailing wildcard, but not a lone "*"
+      if (word && word !== '*') {
+        for (const part of word.split(' ')) terms.add(part);
+      }
+    }
+  }
+
+  return { phrases: [...phrases], terms: [...terms] };
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}*'\s-]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Describe a parsed query for response headers, e.g. `"pricing change", Q3`.
+ */
+export function describeSearchQuery(query: SearchQuery): string {
+  return [...query.phrases.map((p) => '"' + p + '"'), ...query.terms].join(', ');
+}
+
+// ── Searching ───────────────────────────────────────────────────────
+
+/**
+ * Search parsed cues and return the matching turns in transcript order.
+ */
+export function searchCues(cues: VttCue[], query: SearchQuery, options: SearchOptions = {}): TranscriptHit[] {
+  const parts = [
+    ...query.phrases.map((phrase) => ({ label: '"' + phrase + '"', weight: PHRASE_WEIGHT, regex: partRegex(phrase) })),
+    ...query.terms.map((term) => ({ label: term, weight: TERM_WEIGHT, regex: partRegex(term) })),
+  ];
+  if (parts.length === 0) return [];
+
+  const speakerFilter = options.speaker?.trim().toLowerCase();
+  const hits: TranscriptHit[] = [];
+
+  for (const turn of groupTurns(cues)) {
+    if (speakerFilter && !(turn.speaker || '').toLowerCase().includes(speakerFilter)) continue;
+
+    const matched: string[] = [];
+    const ranges: Array<[number, number]> = [];
+    let score = 0;
+    for (const part of parts) {
+      const found = [...turn.text.matchAll(part.regex)];
+      if (found.length === 0) continue;
+      matched.push(part.label);
+      score += part.weight + REPEAT_BONUS * (found.length - 1);
+      for (const m of found) ranges.push([m.index!, m.index! + m[0].length]);
+    }
+
+    if (matched.length === 0 || (options.matchAll && matched.length < parts.length)) continue;
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    hits.push({
+      speaker: turn.speaker,
+      startSeconds: cueStartAt(turn, ranges[0][0]),
+      score,
+      matched,
+      snippet: buildSnippet(turn.text, ranges),
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Whole-word, case-insensitive regex for a phrase or term. Words of a
+ * phrase may be separated by any whitespace or punctuation.
+ */
+function partRegex(part: string): RegExp {
+  const prefix = part.endsWith('*');
+  const words = part.replace(/\*+$/, '').split(' ').map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const body = words.join('[^\\p{L}\\p{N}]+') + (prefix ? '[\\p{L}\\p{N}]*' : '');
+  return new RegExp('(?<![\\p{L}\\p{N}])' + body + '(?![\\p{L}\\p{N}])', 'giu');
+}
+
+/**
+ * Merge consecutive cues from the same speaker into turns, remembering
+ * where each cue starts so a match can be traced back to its time.
+ */
+function groupTurns(cues: VttCue[]): Turn[] {
+  const turns: Turn[] = [];
+  let current: Turn | null = null;
+
+  for (const cue of cues) {
+    if (current && cue.speaker && cue.speaker === current.speaker) {
+      current.text += ' ';
+    } else {
+      current = { speaker: cue.speaker, text: '', cueStarts: [] };
+      turns.push(current);
+    }
+    current.cueStarts.push({ offset: current.text.length, seconds: cue.startSeconds });
+    current.text += cue.text;
+  }
+
+  return turns;
+}
+
+function cueStartAt(turn: Turn, offset: number): number {
+  let seconds = turn.cueStarts[0].seconds;
+  for (const start of turn.cueStarts) {
+    if (start.offset > offset) break;
+    seconds = start.seconds;
+  }
+  return seconds;
+}
+
+/**
+ * Text around the first match, cut at word boundaries, with every match
+ * inside the window in bold.
+ */
+function buildSnippet(text: string, ranges: Array<[number, number]>): string {
+  let from = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT_CHARS);
+  let to = Math.min(text.length, ranges[0][1] + SNIPPET_CONTEXT_CHARS);
+  if (from > 0) from = text.indexOf(' ', from) + 1 || from;
+  if (to < text.length) to = text.lastIndexOf(' ', to) > ranges[0][1] ? text.lastIndexOf(' ', to) : to;
+
+  let snippet = '';
+  let position = from;
+  for (const [start, end] of ranges) {
+    if (start < position || end > to) continue;
+    snippet += text.slice(position, start) + '**' + text.slice(start, end) + '**';
+    position = end;
+  }
+  snippet += text.slice(position, to);
+
+  return (from > 0 ? '…' : '') + snippet.trim() + (to < text.length ? '…' : '');
+}
@@ -1,84 +1,352 @@
 /**
  * VTT Pre-Processing Utility
  *
- * Strips all WebVTT technical metadata from transcript content,
- * returning only clean speaker-attributed dialogue text.
+ * Parses WebVTT transcript content into structured cues and renders
+ * them either as clean speaker-attributed dialogue text or as
+ * timestamped dialogue for citing exact moments in a meeting.
  *
- * Removes:
+ * The clean view removes:
  *  - "WEBVTT" header line
  *  - Cue timing lines (e.g., "00:00:00.000 --> 00:00:05.000")
  *  - Cue identifiers (numeric or UUID)
- *  - NOTE blocks
+ *  - NOTE / STYLE / REGION blocks
  *  - Blank/whitespace-only lines
  *  - HTML tags (<v>, <c>, etc.)
+ *
+ * Optional cleaning (CleaningOptions) goes further: filler words and
+ * stutters can be removed, and a speaker's turn can be split into
+ * paragraphs at long pauses or, for long monologues, at sentence ends.
+ * Without options the output is unchanged.
  */
 
+// ── Types ───────────────────────────────────────────────────────────
+
 /**
- * Clean raw VTT transcript content into plain speaker dialogue.
+ * A single parsed WebVTT cue.
  */
-export function cleanVttTranscript(rawVtt: string): string {
-  const lines = rawVtt.split(/\r?\n/);
-  const cleanedLines: string[] = [];
-  let skipNote = false;
+export interface VttCue {
+  /** Cue identifier line, if present (Teams uses UUID-style IDs) */
+  id?: string;
+  /** Cue start time as written in the VTT file, e.g. "00:01:05.840" */
+  start: string;
+  /** Cue end time as written in the VTT file */
+  end: string;
+  /** Cue start time in seconds from the beginning of the transcript */
+  startSeconds: number;
+  /** Cue end time in seconds from the beginning of the transcript */
+  endSeconds: number;
+  /** Speaker name from the <v Name> voice tag, if present */
+  speaker?: string;
+  /** Cue payload with all markup stripped */
+  text: string;
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+/**
+ * Optional cleaning applied when rendering dialogue.
+ */
+export interface CleaningOptions {
+  /** Remove filler words ("um", "uh", ", you know,") and stutters ("I I think") */
+  removeFillers?: boolean;
+  /** Language of the filler word list (see FILLER_LANGUAGES); defaults to "en" */
+  language?: string;
+  /** Start a new paragraph when a speaker pauses for longer than this many seconds */
+  maxGapSeconds?: number;
+  /** Once a paragraph reaches this many characters, start a new one at the next sentence end */
+  maxParagraphChars?: number;
+  /** Put cues without a speaker on their own line instead of appending them to the previous turn */
+  separateUnattributed?: boolean;
+}
 
-    // Skip empty lines
-    if (trimmed === '') {
-      skipNote = false; // NOTE blocks end at a blank line
-      continue;
-    }
+/**
+ * Consecutive cues rendered as one line of dialogue.
+ */
+export interface Paragraph {
+  speaker?: string;
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
 
-    // Skip WEBVTT header
-    if (/^WEBVTT/i.test(trimmed)) {
-      continue;
-    }
+// ── Parsing ─────────────────────────────────────────────────────────
 
-    // Skip NOTE blocks (multi-line comments)
-    if (/^NOTE\b/i.test(trimmed)) {
-      skipNote = true;
-      continue;
-    }
-    if (skipNote) {
-      continue;
-    }
+const TIMING_LINE = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s*-->\s*((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
 
-    // Skip timing lines: "00:00:00.000 --> 00:00:05.000"
-    if (/^\d{2}:\d{2}:\d{2}\.\d{3}\s*-->\s*\d{2}:\d{2}:\d{2}\.\d{3}/.test(trimmed)) {
-      continue;
-    }
+/**
+ * Parse raw VTT content into structured cues.
+ *
+ * Blocks without a timing line (the WEBVTT header, NOTE, STYLE and
+ * REGION blocks) are skipped. Cues whose payload is empty after
+ * stripping markup are dropped.
+ */
+export function parseVtt(rawVtt: string): VttCue[] {
+  const blocks = rawVtt.replace(/^\uFEFF/, '').split(/\r?\n[ \t]*\r?\n/);
+  const cues: VttCue[] = [];
 
-    // Skip pure numeric cue identifiers
-    if (/^\d+$/.test(trimmed)) {
-      continue;
-    }
+  for (const block of blocks) {
+    const lines = block.split(/\r?\n/).map((l) => l.trim()).filter((l) => l !== '');
+    if (lines.length === 0) continue;
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/i.test(lines[0])) continue;
+
+    const timingIndex = lines.findIndex((l) => TIMING_LINE.test(l));
+    if (timingIndex === -1) continue;
 
-    // Skip UUID-style cue identifiers
-    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(trimmed)) {
-      continue;
+    const timing = lines[timingIndex].match(TIMING_LINE)!;
+    const id = timingIndex > 0 ? lines[timingIndex - 1] : undefined;
+
+    let speaker: string | undefined;
+    const textParts: string[] = [];
+    for (const payload of lines.slice(timingIndex + 1)) {
+      // Handle <v SpeakerName>dialogue</v> pattern (common in Teams VTT)
+      const voice = payload.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/i);
+      if (voice && !speaker) {
+        speaker = voice[1].trim();
+      }
+      textParts.push(stripTags(payload));
     }
 
-    // Strip HTML voice tags: <v Speaker Name>text</v>  →  Speaker Name: text
-    let cleaned = trimmed;
+    const text = textParts.join(' ').replace(/\s{2,}/g, ' ').trim();
+    if (text.length === 0) continue;
+
+    cues.push({
+      id,
+      start: timing[1],
+      end: timing[2],
+      startSeconds: parseTimestamp(timing[1]),
+      endSeconds: parseTimestamp(timing[2]),
+      speaker,
+      text,
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Convert a VTT timestamp ("hh:mm:ss.ttt" or "mm:ss.ttt") to seconds.
+ */
+export function parseTimestamp(timestamp: string): number {
+  const parts = timestamp.split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Format a number of seconds as "hh:mm:ss".
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = whole % 60;
+  return [h, m, s].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+/**
+ * Keep only the cues that overlap a time window, given in seconds from
+ * the start of the transcript. Either bound may be omitted.
+ */
+export function selectTimeWindow(cues: VttCue[], fromSeconds?: number, toSeconds?: number): VttCue[] {
+  return cues.filter((cue) =>
+    (fromSeconds === undefined || cue.endSeconds > fromSeconds) &&
+    (toSeconds === undefined || cue.startSeconds < toSeconds)
+  );
+}
+
+function stripTags(line: string): string {
+  return line
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+}
+
+// ── Filler Removal ──────────────────────────────────────────────────
 
-    // Handle <v SpeakerName>dialogue</v> pattern (common in Teams VTT)
-    cleaned = cleaned.replace(/<v\s+([^>]+)>/gi, '$1: ');
-    cleaned = cleaned.replace(/<\/v>/gi, '');
+/**
+ * Filler words per language. Sounds ("um", "äh") are removed wherever
+ * they occur; phrases ("you know") only where they are set off by
+ * punctuation, since they are often part of a real sentence.
+ */
+const FILLERS: Record<string, { sounds: string[]; phrases: string[] }> = {
+  en: {
+    sounds: ['um', 'umm', 'uh', 'uhh', 'uhm', 'erm', 'er', 'ah', 'hmm', 'mm', 'mhm'],
+    phrases: ['you know', 'I mean', 'like'],
+  },
+  de: {
+    sounds: ['äh', 'ähm', 'öh', 'öhm', 'hm', 'hmm', 'mhm'],
+    phrases: ['sozusagen', 'weißt du', 'na ja'],
+  },
+  fr: {
+    sounds: ['euh', 'heu', 'hum', 'hmm', 'bah'],
+    phrases: ['tu vois', 'tu sais', 'en fait', 'quoi'],
+  },
+  es: {
+    sounds: ['eh', 'em', 'ehm', 'mmm', 'hmm'],
+    phrases: ['o sea', 'sabes', 'bueno', 'pues'],
+  },
+  nl: {
+    sounds: ['eh', 'ehm', 'uh', 'uhm', 'hm', 'hmm'],
+    phrases: ['weet je', 'zeg maar', 'nou'],
+  },
+};
+
+export const FILLER_LANGUAGES = Object.keys(FILLERS);
 
-    // Strip any remaining HTML tags
-    cleaned = cleaned.replace(/<[^>]+>/g, '');
+const SENTENCE_END = /[.!?…]["'”’)]*$/;
 
-    // Collapse multiple spaces
-    cleaned = cleaned.replace(/\s{2,}/g, ' ').trim();
+/** Placeholder for a removed sentence-initial filler */
+const CAPITALISE = '\u0001';
+
+/**
+ * Remove filler words and stutters from each cue's text, tidying the
+ * punctuation left behind. Cues left without any words are dropped.
+ * Unknown languages fall back to English.
+ */
+export function removeFillers(cues: VttCue[], language = 'en'): VttCue[] {
+  const fillers = FILLERS[language.toLowerCase()] ?? FILLERS.en;
+  const word = (alternatives: string[]) =>
+    alternatives.map((w) => w.replace(/\s+/g, '\\s+')).join('|');
+  const sound = `(?:${word(fillers.sounds)})`;
+  const sounds = new RegExp(`(?<![\\p{L}\\p{N}'])${sound}(?![\\p{L}\\p{N}'])`, 'giu');
+  const soundsBetweenCommas = new RegExp(`,\\s*${sound}(?:[\\s,]+${sound})*\\s*,`, 'giu');
+  const phrases = new RegExp(`(^|[,.;!?…])\\s*(${word(fillers.phrases)})\\s*([,.;!?…]|$)`, 'giu');
 
-    if (cleaned.length > 0) {
-      cleanedLines.push(cleaned);
+  const result: VttCue[] = [];
+  for (const cue of cues) {
+    // ", um," in mid-sentence leaves no comma behind; a capitalised filler started a
+    // sentence: mark it so the next word is capitalised instead
+    let text = cue.text
+      .replace(soundsBetweenCommas, ' ')
+      .replace(sounds, (match) => (/^\p{Lu}/u.test(match) ? CAPITALISE : ''));
+    // Repeat, as one removal can expose the next: "I mean, like, the point"
+    for (let previous = ''; previous !== text; ) {
+      previous = text;
+      // ", you know," in mid-sentence leaves no comma behind
+      text = text.replace(phrases, (match, before: string, phrase: string, after: string) =>
+        !/^[,;]$/.test(before) && /^\p{Lu}/u.test(phrase)
+          ? before + ' ' + CAPITALISE + after
+          : before === ',' && after === ',' ? ' ' : before + after
+      );
     }
+    text = tidyPunctuation(
+      text
+        .replace(new RegExp(CAPITALISE + '[\\s,;]*(\\p{L})', 'gu'), (match, letter: string) => letter.toUpperCase())
+        .replaceAll(CAPITALISE, '')
+        // Stutters: "the, the" → "the", "I- I" → "I", "I I I think" → "I think", "w- we" → "we".
+        // Longer words only count when the repeat is set off by a comma or dash, so "had had",
+        // "that that" and "bye bye" are kept; hyphenated words ("so-so") have no space after the dash.
+        .replace(/(?<![\p{L}\p{N}'])([\p{L}']+)(?:(?:\s*,\s*|-\s+|\s+[–—]\s+)\1)+(?![\p{L}\p{N}'])/giu, '$1')
+        .replace(/(?<![\p{L}\p{N}'])(\p{L})(?:\s+\1)+(?![\p{L}\p{N}'])/giu, '$1')
+        .replace(/(?<![\p{L}])(\p{L}+)-\s+(\p{L}+)/gu, (match, start: string, next: string) =>
+          next.toLowerCase().startsWith(start.toLowerCase()) ? next : match
+        )
+    );
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+    result.push({ ...cue, text });
   }
+  return result;
+}
+
+function tidyPunctuation(text: string): string {
+  return text
+    .replace(/\s+([,.;!?…])/g, '$1')
+    .replace(/,(?:\s*,)+/g, ',')
+    .replace(/,\s*([.;!?…])/g, '$1')
+    .replace(/([.;!?…])\s*,/g, '$1')
+    .replace(/^[\s,;]+/, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+// ── Rendering ───────────────────────────────────────────────────────
+
+/**
+ * Clean raw VTT transcript content into plain speaker dialogue.
+ */
+export function cleanVttTranscript(rawVtt: string, options: CleaningOptions = {}): string {
+  return formatCleanCues(parseVtt(rawVtt), options);
+}
+
+/**
+ * Render already-parsed cues as plain speaker dialogue, one line per
+ * speaker turn (or per paragraph, with the paragraph options).
+ */
+export function formatCleanCues(cues: VttCue[], options: CleaningOptions = {}): string {
+  const cleaned = options.removeFillers ? removeFillers(cues, options.language) : cues;
+
+  if (hasParagraphOptions(options)) {
+    return groupParagraphs(cleaned, options, !options.separateUnattributed)
+      .map((p) => (p.speaker ? `${p.speaker}: ${p.text}` : p.text))
+      .join('\n');
+  }
+
+  const lines = cleaned.map((cue) =>
+    cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text
+  );
 
   // Merge consecutive lines from the same speaker
-  return mergeSpeakerLines(cleanedLines);
+  return mergeSpeakerLines(lines);
+}
+
+/**
+ * Render raw VTT transcript content as timestamped speaker dialogue.
+ * Consecutive cues from the same speaker are merged and stamped with
+ * the start time of the first cue.
+ *
+ * Output: "[00:00:00] Alice: Hello How are you\n[00:00:08] Bob: Fine thanks"
+ */
+export function timestampVttTranscript(rawVtt: string, options: CleaningOptions = {}): string {
+  return formatTimestampedCues(parseVtt(rawVtt), options);
+}
+
+/**
+ * Render already-parsed cues as timestamped speaker dialogue. Cues
+ * without a speaker always get a line of their own.
+ */
+export function formatTimestampedCues(cues: VttCue[], options: CleaningOptions = {}): string {
+  const cleaned = options.removeFillers ? removeFillers(cues, options.language) : cues;
+  return groupParagraphs(cleaned, options)
+    .map((p) => `[${formatTimestamp(p.startSeconds)}] ${p.speaker ? `${p.speaker}: ` : ''}${p.text}`)
+    .join('\n');
+}
+
+/**
+ * Merge consecutive cues from the same speaker into paragraphs. A new
+ * paragraph starts when the speaker changes, after a pause longer than
+ * `maxGapSeconds`, or at a sentence end once the paragraph has reached
+ * `maxParagraphChars`. Cues without a speaker start a paragraph of
+ * their own, unless `appendUnattributed` adds them to the current one.
+ */
+export function groupParagraphs(
+  cues: VttCue[],
+  options: CleaningOptions = {},
+  appendUnattributed = false
+): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  for (const cue of cues) {
+    const current = paragraphs[paragraphs.length - 1] as Paragraph | undefined;
+    const speaker = cue.speaker ?? (appendUnattributed ? current?.speaker : undefined);
+    const continues = current !== undefined && speaker !== undefined && speaker === current.speaker &&
+      !(options.maxGapSeconds !== undefined && cue.startSeconds - current.endSeconds > options.maxGapSeconds) &&
+      !(options.maxParagraphChars !== undefined && current.text.length >= options.maxParagraphChars &&
+        SENTENCE_END.test(current.text));
+
+    if (current && continues) {
+      current.text += ' ' + cue.text;
+      current.endSeconds = Math.max(current.endSeconds, cue.endSeconds);
+    } else {
+      paragraphs.push({ speaker, startSeconds: cue.startSeconds, endSeconds: cue.endSeconds, text: cue.text });
+    }
+  }
+
+  return paragraphs;
+}
+
+function hasParagraphOptions(options: CleaningOptions): boolean {
+  return options.maxGapSeconds !== undefined || options.maxParagraphChars !== undefined ||
+    options.separateUnattributed === true;
 }
 
 /**
@@ -0,0 +1,531 @@
+/**
+ * Transcript & Recording Webhooks
+ *
+ * Graph change-notification subscriptions for new transcripts and
+ * recordings:
+ *  - subscribe() creates a subscription pointing at POST /notifications
+ *    (and /notifications/lifecycle), with a random clientState secret
+ *  - The notification endpoints answer Graph's validationToken handshake,
+ *    verify clientState on every notification and record each one in a
+ *    bounded notification log
+ *  - Subscriptions flagged autoSave run the save_transcript pipeline
+ *    (or the recording archive) for each new item
+ *  - A background timer renews subscriptions before they expire
+ *
+ * Background work has no incoming request to take a token from. With
+ * OBO it uses the subscribing user's cached MSAL session (refresh
+ * token, see auth.ts); in application-permission mode the app token.
+ *
+ * Subscriptions and the log live in memory, mirrored to
+ * WEBHOOK_STATE_FILE when set so they survive restarts. Run the
+ * webhook-enabled deployment with a single replica, or share the
+ * state file, so renewals and auto-saves are not duplicated.
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { Request, Response } from 'express';
+import { getGraphTokenAppOnly, getGraphTokenForAccount } from './auth';
+import {
+  createSubscription,
+  deleteSubscription,
+  notificationResource,
+  renewSubscription,
+  withGraphUser,
+} from './graph';
+import { GraphError } from './graph-client';
+
+// ── Configuration ───────────────────────────────────────────────────
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || '').replace(/\/+$/, '');
+const WEBHOOK_STATE_FILE = process.env.WEBHOOK_STATE_FILE || '';
+const SUBSCRIPTION_LIFETIME_MINUTES = parseInt(process.env.SUBSCRIPTION_LIFETIME_MINUTES || '1440', 10);
+const NOTIFICATION_LOG_SIZE = parseInt(process.env.NOTIFICATION_LOG_SIZE || '500', 10);
+
+const RENEWAL_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// Renew once less than half of the lifetime is left
+const RENEW_WITHIN_MS = (SUBSCRIPTION_LIFETIME_MINUTES * 60 * 1000) / 2;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type NotificationKind = 'transcripts' | 'recordings';
+
+/**
+ * The caller a subscription belongs to. Only the owner can list,
+ * delete or read the log of their subscriptions.
+ */
+export interface SubscriptionOwner {
+  /** MSAL home account id ("oid.tid"), also the token cache partition */
+  homeAccountId: string;
+  /** UPN or display name, for logs */
+  name: string;
+  /** Created in application-permission mode (background work uses the app token) */
+  appMode: boolean;
+}
+
+export interface SubscriptionRecord {
+  id: string;
+  kind: NotificationKind;
+  resource: string;
+  meetingId?: string;
+  /** Target user in application-permission mode */
+  targetUserId?: string;
+  owner: SubscriptionOwner;
+  clientState: string;
+  createdDateTime: string;
+  expirationDateTime: string;
+  autoSave: boolean;
+  siteUrl?: string;
+  folderPath?: string;
+  status: 'active' | 'renewalFailed' | 'removed' | 'expired';
+  lastError?: string;
+}
+
+export interface NotificationLogEntry {
+  receivedDateTime: string;
+  subscriptionId: string;
+  /** "created", or the lifecycle event name */
+  event: string;
+  resource?: string;
+  meetingId?: string;
+  itemId?: string;
+  outcome: 'logged' | 'saved' | 'saveFailed' | 'duplicate' | 'rejected' | 'lifecycle';
+  detail?: string;
+  ownerId?: string;
+}
+
+/**
+ * Runs the save pipeline for a new item, i.e. save_transcript for
+ * transcripts or get_meeting_recording with save for recordings.
+ */
+export type AutoSaveHandler = (
+  graphToken: string,
+  kind: NotificationKind,
+  args: Record<string, unknown>
+) => Promise<{ content: Array<{ text: string }>; isError?: boolean }>;
+
+interface GraphNotification {
+  subscriptionId: string;
+  clientState?: string;
+  changeType?: string;
+  lifecycleEvent?: string;
+  resource?: string;
+  resourceData?: { id?: string };
+}
+
+// ── State ───────────────────────────────────────────────────────────
+
+const subscriptions = new Map<string, SubscriptionRecord>();
+let notificationLog: NotificationLogEntry[] = [];
+let autoSaveHandler: AutoSaveHandler | null = null;
+let renewalTimer: NodeJS.Timeout | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+/**
+ * Load persisted subscriptions and start the renewal timer. Call once
+ * at startup, passing the save pipeline for autoSave subscriptions.
+ */
+export async function startWebhooks(options: { autoSave: AutoSaveHandler }): Promise<void> {
+  autoSaveHandler = options.autoSave;
+  await loadState();
+
+  if (!renewalTimer) {
+    renewalTimer = setInterval(() => {
+      renewDueSubscriptions().catch((err) => console.error('[webhook] Renewal pass failed:', err.message));
+    }, RENEWAL_CHECK_INTERVAL_MS);
+    renewalTimer.unref();
+  }
+  await renewDueSubscriptions();
+}
+
+async function loadState(): Promise<void> {
+  if (!WEBHOOK_STATE_FILE) return;
+  try {
+    const data = JSON.parse(await fs.readFile(WEBHOOK_STATE_FILE, 'utf8')) as {
+      subscriptions?: SubscriptionRecord[];
+      log?: NotificationLogEntry[];
+    };
+    for (const record of data.subscriptions || []) {
+      subscriptions.set(record.id, record);
+    }
+    notificationLog = (data.log || []).slice(-NOTIFICATION_LOG_SIZE);
+    console.log(`[webhook] Loaded ${subscriptions.size} subscriptions from ${WEBHOOK_STATE_FILE}`);
+  } catch (err: any) {
+    if (err.code !== 'ENOENT') {
+      console.error(`[webhook] Could not read ${WEBHOOK_STATE_FILE}: ${err.message}`);
+    }
+  }
+}
+
+/**
+ * Write state to WEBHOOK_STATE_FILE (if set). Writes are serialised and
+ * go through a temp file, so the file is never left half-written.
+ */
+function persistState(): void {
+  if (!WEBHOOK_STATE_FILE) return;
+  const snapshot = JSON.stringify({ subscriptions: [...subscriptions.values()], log: notificationLog });
+  writeChain = writeChain
+    .then(async () => {
+      const temp = `${WEBHOOK_STATE_FILE}.tmp`;
+      await fs.writeFile(temp, snapshot, { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(temp, WEBHOOK_STATE_FILE);
+    })
+    .catch((err) => console.error(`[webhook] Could not write ${WEBHOOK_STATE_FILE}: ${err.message}`));
+}
+
+function appendLog(entry: Omit<NotificationLogEntry, 'receivedDateTime'>): void {
+  notificationLog.push({ receivedDateTime: new Date().toISOString(), ...entry });
+  if (notificationLog.length > NOTIFICATION_LOG_SIZE) {
+    notificationLog = notificationLog.slice(-NOTIFICATION_LOG_SIZE);
+  }
+}
+
+// ── Subscription Management ─────────────────────────────────────────
+
+/**
+ * Subscribe to new transcripts or recordings, for one meeting or for
+ * every meeting the target user organises.
+ *
+ * @param options.userId - Object ID of the user whose meetings to watch
+ *                         (used when no meetingId is given)
+ * @throws Error if PUBLIC_BASE_URL is not configured
+ */
+export async function subscribe(
+  graphToken: string,
+  owner: SubscriptionOwner,
+  options: {
+    kind: NotificationKind;
+    userId: string;
+    meetingId?: string;
+    targetUserId?: string;
+    autoSave: boolean;
+    siteUrl?: string;
+    folderPath?: string;
+  }
+): Promise<SubscriptionRecord> {
+  if (!PUBLIC_BASE_URL.startsWith('https://')) {
+    throw new Error(
+      'Webhooks need a public HTTPS address for Graph to call. Set PUBLIC_BASE_URL (e.g. https://transcripts.contoso.com).'
+    );
+  }
+
+  const clientState = randomBytes(32).toString('hex');
+  const resource = notificationResource(options.kind, options.userId, options.meetingId);
+  const subscription = await createSubscription(graphToken, {
+    resource,
+    notificationUrl: `${PUBLIC_BASE_URL}/notifications`,
+    lifecycleNotificationUrl: `${PUBLIC_BASE_URL}/notifications/lifecycle`,
+    clientState,
+    expirationDateTime: nextExpiry(),
+  });
+
+  const record: SubscriptionRecord = {
+    id: subscription.id,
+    kind: options.kind,
+    resource,
+    meetingId: options.meetingId,
+    targetUserId: options.targetUserId,
+    owner,
+    clientState,
+    createdDateTime: new Date().toISOString(),
+    expirationDateTime: subscription.expirationDateTime,
+    autoSave: options.autoSave,
+    siteUrl: options.siteUrl,
+    folderPath: options.folderPath,
+    status: 'active',
+  };
+  subscriptions.set(record.id, record);
+  persistState();
+
+  console.log(`[webhook] ${owner.name} subscribed to ${resource} (${record.id})`);
+  return record;
+}
+
+/**
+ * Subscriptions owned by a caller, soonest expiry first.
+ */
+export function listSubscriptions(owner: SubscriptionOwner): SubscriptionRecord[] {
+  refreshExpiredStatus();
+  return [...subscriptions.values()]
+    .filter((s) => s.owner.homeAccountId === owner.homeAccountId)
+    .sort((a, b) => Date.parse(a.expirationDateTime) - Date.parse(b.expirationDateTime));
+}
+
+/**
+ * Delete one of the caller's subscriptions in Graph and forget it.
+ *
+ * @returns false if the caller has no subscription with this ID
+ */
+export async function unsubscribe(
+  graphToken: string,
+  owner: SubscriptionOwner,
+  subscriptionId: string
+): Promise<boolean> {
+  const record = subscriptions.get(subscriptionId);
+  if (!record || record.owner.homeAccountId !== owner.homeAccountId) {
+    return false;
+  }
+
+  if (record.status !== 'removed' && record.status !== 'expired') {
+    await deleteSubscription(graphToken, subscriptionId);
+  }
+  subscriptions.delete(subscriptionId);
+  persistState();
+  console.log(`[webhook] ${owner.name} deleted subscription ${subscriptionId}`);
+  return true;
+}
+
+/**
+ * Most recent notification log entries for the caller's subscriptions,
+ * newest first.
+ */
+export function getNotificationLog(
+  owner: SubscriptionOwner,
+  options: { subscriptionId?: string; limit: number }
+): NotificationLogEntry[] {
+  return notificationLog
+    .filter((e) => e.ownerId === owner.homeAccountId)
+    .filter((e) => !options.subscriptionId || e.subscriptionId === options.subscriptionId)
+    .slice(-options.limit)
+    .reverse();
+}
+
+function nextExpiry(): string {
+  return new Date(Date.now() + SUBSCRIPTION_LIFETIME_MINUTES * 60 * 1000).toISOString();
+}
+
+function refreshExpiredStatus(): void {
+  const now = Date.now();
+  for (const record of subscriptions.values()) {
+    if ((record.status === 'active' || record.status === 'renewalFailed') &&
+        Date.parse(record.expirationDateTime) <= now) {
+      record.status = 'expired';
+    }
+  }
+}
+
+// ── Background Work ─────────────────────────────────────────────────
+
+/**
+ * A Graph token for work done on the owner's behalf outside a request.
+ */
+function backgroundToken(record: SubscriptionRecord): Promise<string> {
+  return record.owner.appMode
+    ? getGraphTokenAppOnly()
+    : getGraphTokenForAccount(record.owner.homeAccountId);
+}
+
+async function renewDueSubscriptions(): Promise<void> {
+  refreshExpiredStatus();
+  const due = [...subscriptions.values()].filter((s) =>
+    (s.status === 'active' || s.status === 'renewalFailed') &&
+    Date.parse(s.expirationDateTime) - Date.now() < RENEW_WITHIN_MS
+  );
+
+  for (const record of due) {
+    await renew(record);
+  }
+  if (due.length > 0) persistState();
+}
+
+async function renew(record: SubscriptionRecord): Promise<void> {
+  try {
+    const token = await backgroundToken(record);
+    const renewed = await renewSubscription(token, record.id, nextExpiry());
+    record.expirationDateTime = renewed.expirationDateTime;
+    record.status = 'active';
+    record.lastError = undefined;
+    console.log(`[webhook] Renewed ${record.id} until ${record.expirationDateTime}`);
+  } catch (err: any) {
+    if (err instanceof GraphError && err.status === 404) {
+      record.status = 'removed';
+      record.lastError = 'Subscription no longer exists in Graph';
+    } else {
+      record.status = 'renewalFailed';
+      record.lastError = err.message;
+    }
+    console.error(`[webhook] Renewal of ${record.id} failed: ${err.message}`);
+  }
+}
+
+// ── Notification Endpoints ──────────────────────────────────────────
+
+/**
+ * POST /notifications — Graph change notifications.
+ *
+ * Answers the validationToken handshake, otherwise acknowledges with
+ * 202 straight away (Graph expects a reply within a few seconds) and
+ * processes the batch afterwards.
+ */
+export function handleNotificationRequest(req: Request, res: Response): void {
+  if (answerValidation(req, res)) return;
+
+  const notifications = readNotifications(req);
+  res.sendStatus(202);
+
+  processNotifications(notifications).catch((err) =>
+    console.error('[webhook] Notification processing failed:', err.message)
+  );
+}
+
+/**
+ * POST /notifications/lifecycle — subscription lifecycle events
+ * (reauthorizationRequired, subscriptionRemoved, missed).
+ */
+export function handleLifecycleRequest(req: Request, res: Response): void {
+  if (answerValidation(req, res)) return;
+
+  const notifications = readNotifications(req);
+  res.sendStatus(202);
+
+  processLifecycle(notifications).catch((err) =>
+    console.error('[webhook] Lifecycle processing failed:', err.message)
+  );
+}
+
+/**
+ * Echo Graph's validationToken as text/plain, which is how Graph checks
+ * the endpoint when a subscription is created.
+ */
+function answerValidation(req: Request, res: Response): boolean {
+  const token = req.query.validationToken;
+  if (typeof token !== 'string') return false;
+  res.status(200).type('text/plain').send(token);
+  return true;
+}
+
+function readNotifications(req: Request): GraphNotification[] {
+  const value = (req.body as { value?: unknown } | undefined)?.value;
+  return Array.isArray(value) ? (value as GraphNotification[]) : [];
+}
+
+/**
+ * Find the subscription a notification belongs to and check its
+ * clientState, in constant time. Returns null (and logs) if either fails.
+ */
+function verifyNotification(n: GraphNotification, event: string): SubscriptionRecord | null {
+  const record = subscriptions.get(n.subscriptionId);
+  const expected = Buffer.from(record?.clientState || '');
+  const received = Buffer.from(n.clientState || '');
+  if (!record || expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    console.warn(`[webhook] Rejected ${event} notification for unknown subscription or bad clientState: ${n.subscriptionId}`);
+    appendLog({
+      subscriptionId: n.subscriptionId,
+      event,
+      resource: n.resource,
+      outcome: 'rejected',
+      detail: record ? 'clientState mismatch' : 'Unknown subscription',
+      ownerId: record?.owner.homeAccountId,
+    });
+    return null;
+  }
+  return record;
+}
+
+/** "subscriptionId/itemId" of auto-saves that have started but not finished */
+const savesInProgress = new Set<string>();
+
+const ITEM_RESOURCE = /onlineMeetings(?:\('([^']+)'\)|\/([^/]+))\/(?:transcripts|recordings)(?:\('([^']+)'\)|\/([^/?]+))/;
+
+async function processNotifications(notifications: GraphNotification[]): Promise<void> {
+  for (const n of notifications) {
+    const record = verifyNotification(n, n.changeType || 'created');
+    if (!record) continue;
+
+    const match = (n.resource || '').match(ITEM_RESOURCE);
+    const meetingId = match ? match[1] || match[2] : record.meetingId;
+    const itemId = (match ? match[3] || match[4] : undefined) || n.resourceData?.id;
+    const entry = {
+      subscriptionId: record.id,
+      event: n.changeType || 'created',
+      resource: n.resource,
+      meetingId,
+      itemId,
+      ownerId: record.owner.homeAccountId,
+    };
+
+    if (!record.autoSave || !meetingId) {
+      appendLog({ ...entry, outcome: 'logged' });
+      continue;
+    }
+
+    // Graph may deliver the same notification more than once, even while
+    // the first delivery is still being saved. Without an item ID there is
+    // nothing to tell two notifications apart, so they are all processed.
+    const key = itemId ? record.id + '/' + itemId : null;
+    if (key && (savesInProgress.has(key) ||
+        notificationLog.some((e) => e.outcome === 'saved' && e.subscriptionId === record.id && e.itemId === itemId))) {
+      appendLog({ ...entry, outcome: 'duplicate' });
+      continue;
+    }
+
+    if (key) savesInProgress.add(key);
+    try {
+      appendLog({ ...entry, ...(await autoSave(record, meetingId, itemId)) });
+    } finally {
+      if (key) savesInProgress.delete(key);
+    }
+  }
+  persistState();
+}
+
+async function autoSave(
+  record: SubscriptionRecord,
+  meetingId: string,
+  itemId: string | undefined
+): Promise<Pick<NotificationLogEntry, 'outcome' | 'detail'>> {
+  if (!autoSaveHandler) {
+    return { outcome: 'saveFailed', detail: 'Auto-save is not configured' };
+  }
+
+  try {
+    const token = await backgroundToken(record);
+    const args: Record<string, unknown> = {
+      meetingId,
+      siteUrl: record.siteUrl,
+      folderPath: record.folderPath,
+    };
+    if (itemId) args[record.kind === 'transcripts' ? 'transcriptId' : 'recordingId'] = itemId;
+
+    const result = await withGraphUser(record.targetUserId, () => autoSaveHandler!(token, record.kind, args));
+    const text = result.content[0]?.text || '';
+    if (result.isError) {
+      return { outcome: 'saveFailed', detail: text.slice(0, 300) };
+    }
+    const saved = text.match(/Saved to SharePoint:(?:\*\*)?\s*(\S+)/);
+    console.log(`[webhook] Auto-saved ${record.kind} for meeting ${meetingId}`);
+    return { outcome: 'saved', detail: saved ? saved[1] : undefined };
+  } catch (err: any) {
+    console.error(`[webhook] Auto-save for ${record.id} failed: ${err.message}`);
+    return { outcome: 'saveFailed', detail: err.message };
+  }
+}
+
+async function processLifecycle(notifications: GraphNotification[]): Promise<void> {
+  for (const n of notifications) {
+    const event = n.lifecycleEvent || 'unknown';
+    const record = verifyNotification(n, event);
+    if (!record) continue;
+
+    let detail: string | undefined;
+    if (event === 'reauthorizationRequired') {
+      await renew(record);
+      detail = record.status === 'active' ? 'Reauthorized' : 'Reauthorization failed: ' + record.lastError;
+    } else if (event === 'subscriptionRemoved') {
+      record.status = 'removed';
+      record.lastError = 'Removed by Graph';
+      detail = 'Graph removed the subscription; subscribe again to keep receiving notifications';
+    } else if (event === 'missed') {
+      detail = 'Graph dropped some notifications; items created meanwhile were not processed';
+    }
+
+    console.warn(`[webhook] Lifecycle event ${event} for ${record.id}`);
+    appendLog({
+      subscriptionId: record.id,
+      event,
+      outcome: 'lifecycle',
+      detail,
+      ownerId: record.owner.homeAccountId,
+    });
+  }
+  persistState();
+}
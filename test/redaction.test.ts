@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { availableDetectors, BUILT_IN_DETECTORS, Redactor } from '../src/redaction';
+import { VttCue } from '../src/vtt-parser';
+
+function tag(text: string, only?: string[]): string {
+  return new Redactor('tag', only).redact(text);
+}
+
+describe('Redactor detectors', () => {
+  it('redacts email addresses', () => {
+    assert.equal(tag('Mail jane.doe@contoso.com today'), 'Mail [EMAIL] today');
+  });
+
+  it('redacts international and grouped phone numbers', () => {
+    assert.equal(tag('Call +44 20 7946 0958 or 425-555-0100.'), 'Call [PHONE] or [PHONE].');
+  });
+
+  it('leaves years, dates and amounts alone', () => {
+    const text = 'The 2024-2025 plan from 2026-10-19 costs 1500000 dollars.';
+    assert.equal(tag(text), text);
+  });
+
+  it('redacts card numbers that pass the Luhn check', () => {
+    assert.equal(tag('Card 4111 1111 1111 1111 was charged'), 'Card [CARD] was charged');
+    assert.equal(tag('Card 4111-1111-1111-1111'), 'Card [CARD]');
+  });
+
+  it('keeps digit runs that fail the Luhn check', () => {
+    assert.equal(tag('Order 4111 1111 1111 1112 shipped'), 'Order 4111 1111 1111 1112 shipped');
+  });
+
+  it('redacts IBANs that pass the mod-97 check', () => {
+    assert.equal(tag('Pay GB82 WEST 1234 5698 7654 32 now'), 'Pay [IBAN] now');
+    assert.equal(tag('Pay DE89370400440532013000'), 'Pay [IBAN]');
+  });
+
+  it('does not take an IBAN with a wrong check for one', () => {
+    assert.ok(!tag('Pay GB82 WEST 1234 5698 7654 33 now').includes('[IBAN]'));
+  });
+
+  it('redacts IPv4 and full-form IPv6 addresses', () => {
+    assert.equal(
+      tag('Hosts 192.168.1.20 and 2001:0db8:85a3:0000:0000:8a2e:0370:7334'),
+      'Hosts [IP] and [IP]'
+    );
+  });
+
+  it('prefers the earlier detector where matches overlap', () => {
+    assert.equal(tag('Write to 4255550100@contoso.com'), 'Write to [EMAIL]');
+  });
+});
+
+describe('Redactor modes', () => {
+  it('masks letters and digits and keeps punctuation', () => {
+    assert.equal(new Redactor('mask').redact('jane@contoso.com'), '****@*******.***');
+  });
+
+  it('gives the same value the same hash token', () => {
+    const redactor = new Redactor('hash');
+    const first = redactor.redact('425-555-0100');
+    assert.match(first, /^\[PHONE:[0-9a-f]{8}\]$/);
+    assert.equal(redactor.redact('425 555 0100'), first);
+    assert.notEqual(redactor.redact('425-555-0199'), first);
+  });
+});
+
+describe('Redactor options', () => {
+  it('uses only the chosen detectors, case-insensitively', () => {
+    const text = 'jane@contoso.com, 425-555-0100';
+    assert.equal(tag(text, ['EMAIL']), '[EMAIL], 425-555-0100');
+  });
+
+  it('uses no built-in detector for an empty list', () => {
+    const text = 'jane@contoso.com, 425-555-0100';
+    assert.equal(tag(text, []), text);
+  });
+
+  it('lists the built-in detectors as available', () => {
+    assert.deepEqual([...availableDetectors()].sort(), [...BUILT_IN_DETECTORS].sort());
+  });
+
+  it('counts what it replaced across calls', () => {
+    const redactor = new Redactor('tag');
+    assert.equal(redactor.describe(), 'nothing found');
+    redactor.redact('a@contoso.com and b@contoso.com');
+    redactor.redact('+1 425 555 0100');
+    assert.equal(redactor.describe(), '2 email, 1 phone');
+    assert.equal(redactor.total, 3);
+  });
+
+  it('redacts the text and speaker of each cue', () => {
+    const cues: VttCue[] = [
+      { start: '', end: '', startSeconds: 0, endSeconds: 1, speaker: 'jane@contoso.com', text: 'Call 425-555-0100' },
+      { start: '', end: '', startSeconds: 1, endSeconds: 2, text: 'No speaker' },
+    ];
+    const redacted = new Redactor('tag').redactCues(cues);
+    assert.equal(redacted[0].speaker, '[EMAIL]');
+    assert.equal(redacted[0].text, 'Call [PHONE]');
+    assert.equal(redacted[1].speaker, undefined);
+  });
+});
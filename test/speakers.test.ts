@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpeakerMapper, speakerKey } from '../src/speakers';
+import { VttCue } from '../src/vtt-parser';
+
+function cue(speaker: string | undefined, text: string): VttCue {
+  return { start: '', end: '', startSeconds: 0, endSeconds: 1, speaker, text };
+}
+
+function lines(mapper: SpeakerMapper, cues: VttCue[]): string[] {
+  return mapper.mapCues(cues).map((c) => (c.speaker ? c.speaker + ': ' : '') + c.text);
+}
+
+describe('speakerKey', () => {
+  it('ignores case, spacing, organisation suffixes and name order', () => {
+    assert.equal(speakerKey('Smith, John (Contoso)'), 'john smith');
+    assert.equal(speakerKey('john  smith'), 'john smith');
+    assert.equal(speakerKey('John Smith [Guest]'), 'john smith');
+  });
+});
+
+describe('SpeakerMapper aliases', () => {
+  it('renames every variant of an aliased name', () => {
+    const mapper = new SpeakerMapper({ aliases: { 'John Smith': 'Interviewer' } });
+    assert.equal(mapper.mapName('Smith, John'), 'Interviewer');
+    assert.equal(mapper.mapName('John Smith (Contoso)'), 'Interviewer');
+    assert.equal(mapper.mapName('Jane Doe'), 'Jane Doe');
+    assert.equal(mapper.describe(), '2 aliases applied');
+  });
+
+  it('leaves the text alone when not anonymising', () => {
+    const mapper = new SpeakerMapper({ aliases: { 'John Smith': 'Interviewer' } });
+    assert.deepEqual(lines(mapper, [cue('John Smith', 'I am John.')]), ['Interviewer: I am John.']);
+  });
+});
+
+describe('SpeakerMapper anonymisation', () => {
+  it('numbers speakers in order of first appearance', () => {
+    const mapper = new SpeakerMapper({ anonymise: true });
+    assert.deepEqual(
+      lines(mapper, [cue('Bob Jones', 'Hi.'), cue('Alice Smith', 'Hello.'), cue('Jones, Bob', 'Bye.'), cue(undefined, 'Music')]),
+      ['Participant 1: Hi.', 'Participant 2: Hello.', 'Participant 1: Bye.', 'Music']
+    );
+    assert.equal(mapper.describe(), 'anonymised (2 speakers)');
+  });
+
+  it('keeps aliases as chosen pseudonyms', () => {
+    const mapper = new SpeakerMapper({ anonymise: true, aliases: { 'Jane Doe': 'Interviewer' } });
+    assert.deepEqual(
+      lines(mapper, [cue('Jane Doe', 'Thanks, Bob.'), cue('Bob Jones', 'Thanks, Jane Doe.')]),
+      ['Interviewer: Thanks, Participant 1.', 'Participant 1: Thanks, Interviewer.']
+    );
+  });
+
+  it('replaces full names and names mentioned before their speaker talks', () => {
+    const mapper = new SpeakerMapper({ anonymise: true });
+    assert.deepEqual(
+      lines(mapper, [cue('Alice Smith', 'Over to Bob Jones.'), cue('Bob Jones', 'Thanks Alice.')]),
+      ['Participant 1: Over to Participant 2.', 'Participant 2: Thanks Participant 1.']
+    );
+  });
+
+  it('replaces a name part alone only when one speaker has it', () => {
+    const mapper = new SpeakerMapper({ anonymise: true });
+    assert.deepEqual(
+      lines(mapper, [cue('John Smith', 'Ask Mary Smith.'), cue('Mary Smith', 'Smith here, John.')]),
+      ['Participant 1: Ask Participant 2.', 'Participant 2: Smith here, Participant 1.']
+    );
+  });
+
+  it('does not replace a name part that is also an everyday word', () => {
+    const mapper = new SpeakerMapper({ anonymise: true });
+    assert.deepEqual(
+      lines(mapper, [cue('Will Jones', 'May I ask? Will we ship in May?'), cue('May Brown', 'Will Jones knows.')]),
+      ['Participant 1: May I ask? Will we ship in May?', 'Participant 2: Participant 1 knows.']
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  cleanVttTranscript,
+  formatTimestamp,
+  parseTimestamp,
+  parseVtt,
+  removeFillers,
+  selectTimeWindow,
+  timestampVttTranscript,
+  VttCue,
+} from '../src/vtt-parser';
+
+const TEAMS_VTT = [
+  '\uFEFFWEBVTT',
+  '',
+  'NOTE recorded by Teams',
+  '',
+  '0f1c5e2a-1b2c-4d5e-8f90-123456789abc/12-0',
+  '00:00:01.000 --> 00:00:04.500',
+  '<v Alice Smith>Good morning, everyone.</v>',
+  '',
+  '0f1c5e2a-1b2c-4d5e-8f90-123456789abc/13-0',
+  '00:00:04.500 --> 00:00:07.000',
+  '<v Alice Smith>Next up is <b>pricing</b> &amp; budget.</v>',
+  '',
+  '00:00:08.000 --> 00:00:10.250',
+  '<v Bob Jones>Sounds good.</v>',
+  '',
+  '00:00:11.000 --> 00:00:12.000',
+  '<v Bob Jones></v>',
+  '',
+].join('\r\n');
+
+/** One cue of spoken text, for the filler tests */
+function cue(text: string): VttCue {
+  return { start: '00:00:00.000', end: '00:00:01.000', startSeconds: 0, endSeconds: 1, speaker: 'Alice', text };
+}
+
+function clean(text: string): string | undefined {
+  return removeFillers([cue(text)])[0]?.text;
+}
+
+describe('parseVtt', () => {
+  it('parses Teams cues with IDs, timings and voice tags', () => {
+    const cues = parseVtt(TEAMS_VTT);
+    assert.equal(cues.length, 3);
+    assert.deepEqual(cues[0], {
+      id: '0f1c5e2a-1b2c-4d5e-8f90-123456789abc/12-0',
+      start: '00:00:01.000',
+      end: '00:00:04.500',
+      startSeconds: 1,
+      endSeconds: 4.5,
+      speaker: 'Alice Smith',
+      text: 'Good morning, everyone.',
+    });
+    assert.equal(cues[2].id, undefined);
+    assert.equal(cues[2].speaker, 'Bob Jones');
+  });
+
+  it('strips markup and decodes entities', () => {
+    assert.equal(parseVtt(TEAMS_VTT)[1].text, 'Next up is pricing & budget.');
+  });
+
+  it('skips header and NOTE blocks and drops empty cues', () => {
+    const texts = parseVtt(TEAMS_VTT).map((c) => c.text);
+    assert.ok(!texts.some((t) => /WEBVTT|NOTE/.test(t)));
+    assert.ok(!texts.includes(''));
+  });
+
+  it('keeps cues without a voice tag unattributed', () => {
+    const cues = parseVtt('WEBVTT\n\n00:01.000 --> 00:02.000\nHello there\n');
+    assert.equal(cues.length, 1);
+    assert.equal(cues[0].speaker, undefined);
+    assert.equal(cues[0].startSeconds, 1);
+  });
+});
+
+describe('timestamps', () => {
+  it('parses hours, minutes and seconds', () => {
+    assert.equal(parseTimestamp('01:02:03.500'), 3723.5);
+    assert.equal(parseTimestamp('02:03.250'), 123.25);
+  });
+
+  it('formats seconds as hh:mm:ss', () => {
+    assert.equal(formatTimestamp(3723.9), '01:02:03');
+    assert.equal(formatTimestamp(0), '00:00:00');
+  });
+
+  it('selects the cues that overlap a window', () => {
+    const cues = parseVtt(TEAMS_VTT);
+    assert.deepEqual(selectTimeWindow(cues, 5, 8).map((c) => c.start), ['00:00:04.500']);
+    assert.equal(selectTimeWindow(cues, undefined, 2).length, 1);
+    assert.equal(selectTimeWindow(cues).length, 3);
+  });
+});
+
+describe('cleanVttTranscript', () => {
+  it('merges consecutive lines of the same speaker', () => {
+    assert.equal(
+      cleanVttTranscript(TEAMS_VTT),
+      'Alice Smith: Good morning, everyone. Next up is pricing & budget.\nBob Jones: Sounds good.'
+    );
+  });
+
+  it('stamps each speaker turn with its first cue', () => {
+    assert.equal(
+      timestampVttTranscript(TEAMS_VTT),
+      '[00:00:01] Alice Smith: Good morning, everyone. Next up is pricing & budget.\n' +
+        '[00:00:08] Bob Jones: Sounds good.'
+    );
+  });
+
+  it('removes fillers when asked', () => {
+    const vtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<v Alice>Um, the plan, uh, works.</v>\n';
+    assert.equal(cleanVttTranscript(vtt), 'Alice: Um, the plan, uh, works.');
+    assert.equal(cleanVttTranscript(vtt, { removeFillers: true }), 'Alice: The plan works.');
+  });
+});
+
+describe('removeFillers', () => {
+  it('removes filler sounds and re-capitalises the sentence', () => {
+    assert.equal(clean('Um, so we ship on Friday.'), 'So we ship on Friday.');
+    assert.equal(clean('We ship uh on Friday.'), 'We ship on Friday.');
+    assert.equal(clean('Yes, um.'), 'Yes.');
+  });
+
+  it('takes both commas with a filler removed from mid-sentence', () => {
+    assert.equal(clean('The Q3 pricing, um, changed'), 'The Q3 pricing changed');
+    assert.equal(clean('The pricing, um, uh, changed.'), 'The pricing changed.');
+    assert.equal(clean('So, um, we agree, you know, on it.'), 'So we agree on it.');
+  });
+
+  it('removes filler phrases only where punctuation sets them off', () => {
+    assert.equal(clean('I mean, like, the point is clear.'), 'The point is clear.');
+    assert.equal(clean('I like the plan.'), 'I like the plan.');
+    assert.equal(clean('You know the answer.'), 'You know the answer.');
+  });
+
+  it('leaves words that only start like a filler', () => {
+    assert.equal(clean('It is, umbrella, here'), 'It is, umbrella, here');
+    assert.equal(clean('Ahead of the ermine sale.'), 'Ahead of the ermine sale.');
+  });
+
+  it('collapses stutters', () => {
+    assert.equal(clean('I I I think so.'), 'I think so.');
+    assert.equal(clean('the, the plan'), 'the plan');
+    assert.equal(clean('I- I mean it'), 'I mean it');
+    assert.equal(clean('w- we go'), 'we go');
+    assert.equal(clean('We — we tried.'), 'We tried.');
+  });
+
+  it('keeps repeated words that can be meant', () => {
+    assert.equal(clean('He had had enough.'), 'He had had enough.');
+    assert.equal(clean('I said that that was fine.'), 'I said that that was fine.');
+    assert.equal(clean('Bye bye!'), 'Bye bye!');
+    assert.equal(clean('It was so-so.'), 'It was so-so.');
+  });
+
+  it('drops cues left with only fillers', () => {
+    assert.deepEqual(removeFillers([cue('Um, uh...'), cue('Hmm.')]), []);
+  });
+
+  it('uses the filler list of the language', () => {
+    assert.equal(removeFillers([cue('Das ist, äh, gut.')], 'de')[0].text, 'Das ist gut.');
+    assert.equal(removeFillers([cue('Das ist, äh, gut.')], 'en')[0].text, 'Das ist, äh, gut.');
+  });
+});